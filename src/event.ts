@@ -15,7 +15,7 @@
  * H3EventResponse: H3事件响应类型
  */
 import type { ServerRequest } from "srvx/types";
-import type { H3Event, H3EventContext, HTTPMethod } from "./types";
+import type { H3, H3Event, H3EventContext, HTTPMethod } from "./types";
 import type { H3EventResponse } from "./types/event";
 
 /**
@@ -72,6 +72,13 @@ export class H3WebEvent implements H3Event {
    * 这就像是邮差的记事本，用来记录处理信件时的各种额外信息。
    */
   context: H3EventContext;
+
+  /**
+   * 处理这个请求的H3应用
+   *
+   * 这就像是邮差所属的邮局，邮局的规定（配置）决定了信件怎么处理。
+   */
+  app?: H3;
   
   /**
    * 服务器请求对象，包含了原始的HTTP请求信息
@@ -122,10 +129,13 @@ export class H3WebEvent implements H3Event {
    * 
    * @param request - 服务器请求对象
    * @param context - 可选的事件上下文对象
+   * @param app - 可选的处理这个请求的H3应用
    */
-  constructor(request: ServerRequest, context?: H3EventContext) {
+  constructor(request: ServerRequest, context?: H3EventContext, app?: H3) {
     // 初始化上下文，如果没有提供则创建一个新的
     this.context = context || new H3EventContext();
+    // 记录所属的应用
+    this.app = app;
     // 保存请求对象
     this.request = request;
     // 创建一个新的响应对象
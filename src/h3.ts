@@ -7,8 +7,14 @@ import type {
   H3EventContext,
   EventHandlerRequest,
 } from "./types";
-import type { H3Route } from "./types/h3";
-import type { ResolvedEventHandler } from "./types/handler";
+import type {
+  H3Route,
+  H3RouteDetails,
+  H3RouteGroup,
+  H3RouteGroupOptions,
+  H3RouteInfo,
+} from "./types/h3";
+import type { Middleware, ResolvedEventHandler } from "./types/handler";
 import {
   createRouter,
   addRoute,
@@ -17,10 +23,17 @@ import {
   type RouterContext,
 } from "rou3";
 import { serve as srvxServe, type ServerOptions } from "srvx";
-import { getPathname, joinURL } from "./utils/internal/path";
+import {
+  fillRoutePath,
+  getPathname,
+  joinURL,
+  withQuery,
+} from "./utils/internal/path";
 import { H3WebEvent } from "./event";
 import { kNotFound, prepareResponse } from "./response";
 import { createError } from "./error";
+import { noContent } from "./utils/response";
+import { callMiddleware } from "./handler";
 
 /**
  * Serve the h3 app, automatically handles current runtime behavior.
@@ -42,6 +55,9 @@ class _H3 implements H3 {
   _middleware?: H3Route[];
   _mRouter?: RouterContext<H3Route>;
   _router?: RouterContext<H3Route>;
+  _routeMethods?: Set<string>;
+  _namedRoutes?: Map<string, string>;
+  _entries?: { middleware: boolean; data: H3Route }[];
 
   handler: EventHandler<EventHandlerRequest, unknown | Promise<unknown>>;
 
@@ -54,6 +70,9 @@ class _H3 implements H3 {
       Partial<EventHandler>
     >{
       resolve: (method, path) => this.resolve(method, path),
+      resolveURL: (name, params, query) => this.resolveURL(name, params, query),
+      allowedMethods: (path) => this.allowedMethods(path),
+      routes: () => this.routes(),
       websocket: this.config.websocket,
     });
   }
@@ -89,7 +108,7 @@ class _H3 implements H3 {
     }
 
     // Create a new event instance
-    const event = new H3WebEvent(request, options?.h3);
+    const event = new H3WebEvent(request, options?.h3, this);
 
     // Execute the handler
     let handlerRes: unknown | Promise<unknown>;
@@ -102,6 +121,9 @@ class _H3 implements H3 {
     // Prepare response
     const config = this.config;
     if (!(handlerRes instanceof Promise)) {
+      if (handlerRes === kNotFound) {
+        handlerRes = this._methodNotAllowed(event);
+      }
       const response = prepareResponse(handlerRes, event, config);
       return config.onBeforeResponse
         ? Promise.resolve(config.onBeforeResponse(event, response)).then(
@@ -110,6 +132,7 @@ class _H3 implements H3 {
         : response;
     }
     return handlerRes
+      .then((res) => (res === kNotFound ? this._methodNotAllowed(event) : res))
       .catch((error) => {
         const h3Error = createError(error);
         return config.onError
@@ -130,77 +153,106 @@ class _H3 implements H3 {
 
   _handler(event: H3Event) {
     const pathname = event.pathname;
+    const method = event.request.method;
 
-    let _chain: Promise<unknown> | undefined;
-
-    // 1. Hooks
-    if (this.config.onRequest) {
-      _chain = Promise.resolve(this.config.onRequest(event));
-    }
-
-    // 2. Global middleware
-    const _middleware = this._middleware;
-    if (_middleware) {
-      _chain = _chain || Promise.resolve();
-      for (const m of _middleware) {
-        _chain = _chain.then((_previous) => {
-          if (_previous !== undefined && _previous !== kNotFound) {
-            return _previous;
-          }
-          if (m.method && m.method !== event.request.method) {
-            return;
-          }
-          return m.handler(event);
-        });
+    // 1. Global middleware
+    const middleware: Middleware[] = [];
+    if (this._middleware) {
+      for (const m of this._middleware) {
+        if (m.method && m.method !== method) {
+          continue;
+        }
+        middleware.push(m.handler as Middleware);
       }
     }
 
-    // 3. Middleware router
-    const _mRouter = this._mRouter;
-    if (_mRouter) {
-      const matches = findAllRoutes(_mRouter, event.request.method, pathname);
-      if (matches.length > 0) {
-        _chain = _chain || Promise.resolve();
-        for (const match of matches) {
-          _chain = _chain.then((_previous) => {
-            if (_previous !== undefined && _previous !== kNotFound) {
-              return _previous;
-            }
-            event.context.params = match.params;
-            event.context.matchedRoute = match.data;
-            return match.data.handler(event);
-          });
-        }
+    // 2. Middleware router
+    if (this._mRouter) {
+      const matches = findAllRoutes(this._mRouter, method, pathname);
+      for (const match of matches) {
+        middleware.push((event, next) => {
+          event.context.params = match.params;
+          event.context.matchedRoute = match.data;
+          return (match.data.handler as Middleware)(event, next);
+        });
       }
     }
 
-    // 4. Route handler
-    if (this._router) {
-      const match = findRoute(this._router, event.request.method, pathname);
-      if (match) {
-        if (_chain) {
-          return _chain.then((_previous) => {
-            if (_previous !== undefined && _previous !== kNotFound) {
-              return _previous;
-            }
-            event.context.params = match.params;
-            event.context.matchedRoute = match.data;
-            return match.data.handler(event);
-          });
-        } else {
+    // 3. Route handler (or 404), GET routes also answer HEAD requests
+    const match =
+      this._router &&
+      (findRoute(this._router, method, pathname) ||
+        (method === "HEAD"
+          ? findRoute(this._router, "GET", pathname)
+          : undefined));
+    const handler = match
+      ? (event: H3Event) => {
           event.context.params = match.params;
           event.context.matchedRoute = match.data;
           return match.data.handler(event);
         }
-      }
+      : () => kNotFound;
+
+    // 4. Hooks
+    if (this.config.onRequest) {
+      return Promise.resolve(this.config.onRequest(event)).then((_previous) =>
+        _previous !== undefined && _previous !== kNotFound
+          ? _previous
+          : callMiddleware(event, middleware, handler),
+      );
     }
 
-    // 5. 404
-    return _chain
-      ? _chain.then((_previous) =>
-          _previous === undefined ? kNotFound : _previous,
-        )
-      : kNotFound;
+    return callMiddleware(event, middleware, handler);
+  }
+
+  /**
+   * Respond with 405 (or answer `OPTIONS`) when the path matches a route registered for other methods.
+   */
+  _methodNotAllowed(event: H3Event): unknown {
+    const allowed = this.allowedMethods(event.pathname);
+    if (allowed.length === 0) {
+      return kNotFound;
+    }
+    if (!allowed.includes("OPTIONS")) {
+      allowed.push("OPTIONS");
+    }
+    event.response.setHeader("allow", allowed.join(", "));
+    if (event.request.method === "OPTIONS") {
+      return noContent(event);
+    }
+    return createError({
+      statusCode: 405,
+      statusMessage: "Method Not Allowed",
+    });
+  }
+
+  allowedMethods(path: string): string[] {
+    const allowed = new Set<string>();
+    if (this._router && this._routeMethods) {
+      for (const method of this._routeMethods) {
+        // Routes registered for all methods are matched as fallback by rou3
+        if (findRoute(this._router, method, path)?.data.method === method) {
+          allowed.add(method);
+          if (method === "GET") {
+            allowed.add("HEAD");
+          }
+        }
+      }
+    }
+    // Mounted apps that would receive this path report their own routes
+    const mounted = [
+      ...(this._middleware || []),
+      ...(this._mRouter ? findAllRoutes(this._mRouter, "", path) : []).map(
+        (match) => match.data,
+      ),
+      this._router && findRoute(this._router, "", path)?.data,
+    ];
+    for (const entry of mounted) {
+      for (const method of entry?.handler.allowedMethods?.(path) || []) {
+        allowed.add(method);
+      }
+    }
+    return [...allowed];
   }
 
   async resolve(
@@ -245,57 +297,144 @@ class _H3 implements H3 {
     return resolved;
   }
 
-  all(route: string, handler: EventHandler | H3) {
-    return this.on("", route, handler);
+  url(
+    name: string,
+    params?: Record<string, string | number>,
+    query?: Record<string, unknown>,
+  ): string {
+    const url = this.resolveURL(name, params, query);
+    if (url === undefined) {
+      throw new Error(`Cannot find any route named "${name}"`);
+    }
+    return url;
+  }
+
+  resolveURL(
+    name: string,
+    params?: Record<string, string | number>,
+    query?: Record<string, unknown>,
+  ): string | undefined {
+    const route = this._namedRoutes?.get(name);
+    if (route !== undefined) {
+      return withQuery(fillRoutePath(route, params), query);
+    }
+    if (this._entries) {
+      for (const { data } of this._entries) {
+        const url = data.handler.resolveURL?.(name, params, query);
+        if (url !== undefined) {
+          return url;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  routes(): H3RouteInfo[] {
+    const routes: H3RouteInfo[] = [];
+    for (const { middleware, data } of this._entries || []) {
+      // Mounted apps are listed with their own routes
+      if (data.handler.routes) {
+        routes.push(...data.handler.routes());
+        continue;
+      }
+      routes.push({
+        method: data.method || "",
+        route: data.route || "/**",
+        name: data.name,
+        meta: data.meta,
+        openapi: data.openapi,
+        middleware,
+      });
+    }
+    return routes;
+  }
+
+  _addEntry(middleware: boolean, data: H3Route) {
+    if (!this._entries) {
+      this._entries = [];
+    }
+    this._entries.push({ middleware, data });
+  }
+
+  all(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("", route, handler, details);
   }
-  get(route: string, handler: EventHandler | H3) {
-    return this.on("GET", route, handler);
+  get(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("GET", route, handler, details);
   }
-  post(route: string, handler: EventHandler | H3) {
-    return this.on("POST", route, handler);
+  post(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("POST", route, handler, details);
   }
-  put(route: string, handler: EventHandler | H3) {
-    return this.on("PUT", route, handler);
+  put(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("PUT", route, handler, details);
   }
-  delete(route: string, handler: EventHandler | H3) {
-    return this.on("DELETE", route, handler);
+  delete(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("DELETE", route, handler, details);
   }
-  patch(route: string, handler: EventHandler | H3) {
-    return this.on("PATCH", route, handler);
+  patch(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("PATCH", route, handler, details);
   }
-  head(route: string, handler: EventHandler | H3) {
-    return this.on("HEAD", route, handler);
+  head(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("HEAD", route, handler, details);
   }
-  options(route: string, handler: EventHandler | H3) {
-    return this.on("OPTIONS", route, handler);
+  options(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("OPTIONS", route, handler, details);
   }
-  connect(route: string, handler: EventHandler | H3) {
-    return this.on("CONNECT", route, handler);
+  connect(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("CONNECT", route, handler, details);
   }
-  trace(route: string, handler: EventHandler | H3) {
-    return this.on("TRACE", route, handler);
+  trace(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("TRACE", route, handler, details);
   }
   on(
     method: HTTPMethod | Lowercase<HTTPMethod> | "",
     route: string,
     handler: EventHandler | H3,
+    details?: H3RouteDetails,
   ): this {
+    if (details?.name) {
+      if (this._namedRoutes?.has(details.name)) {
+        throw new Error(`Duplicate route name "${details.name}"`);
+      }
+      if (!this._namedRoutes) {
+        this._namedRoutes = new Map();
+      }
+      this._namedRoutes.set(details.name, route);
+    }
     if (!this._router) {
       this._router = createRouter();
     }
     const _method = (method || "").toUpperCase();
+    if (_method) {
+      if (!this._routeMethods) {
+        this._routeMethods = new Set();
+      }
+      this._routeMethods.add(_method);
+    }
     const _handler = (handler as H3)?.handler || handler;
-    addRoute(this._router, _method, route, <H3Route>{
+    const entry = <H3Route>{
+      ...details,
       method: _method,
       route,
       handler: _handler,
-    });
+    };
+    this._addEntry(false, entry);
+    addRoute(this._router, _method, route, entry);
+    return this;
+  }
+
+  group(
+    prefix: string,
+    fn: (group: H3RouteGroup) => void,
+    options?: H3RouteGroupOptions,
+  ): this {
+    fn(new _H3RouteGroup(this, prefix, options));
     return this;
   }
 
   use(
-    arg1: string | EventHandler | H3 | H3Route,
-    arg2?: EventHandler | H3 | Partial<H3Route>,
+    arg1: string | EventHandler | Middleware | H3 | H3Route,
+    arg2?: EventHandler | Middleware | H3 | Partial<H3Route>,
     arg3?: Partial<H3Route>,
   ) {
     const arg1T = typeof arg1;
@@ -320,6 +459,7 @@ class _H3 implements H3 {
 
     entry.handler = (_handler as H3)?.handler || _handler;
     entry.method = (entry.method || "").toUpperCase() as HTTPMethod;
+    this._addEntry(true, entry);
 
     if (entry.route) {
       // Routed middleware/handler
@@ -337,3 +477,96 @@ class _H3 implements H3 {
     return this;
   }
 }
+
+class _H3RouteGroup implements H3RouteGroup {
+  prefix: string;
+
+  _parent: Pick<H3 | H3RouteGroup, "on">;
+  _middleware: Middleware[];
+  _meta?: Record<string, unknown>;
+
+  constructor(
+    parent: Pick<H3 | H3RouteGroup, "on">,
+    prefix: string,
+    options: H3RouteGroupOptions = {},
+  ) {
+    this._parent = parent;
+    this.prefix = prefix;
+    this._middleware = [...(options.middleware || [])];
+    this._meta = options.meta;
+  }
+
+  use(middleware: Middleware) {
+    this._middleware.push(middleware);
+    return this;
+  }
+
+  group(
+    prefix: string,
+    fn: (group: H3RouteGroup) => void,
+    options?: H3RouteGroupOptions,
+  ) {
+    fn(new _H3RouteGroup(this, prefix, options));
+    return this;
+  }
+
+  all(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("", route, handler, details);
+  }
+  get(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("GET", route, handler, details);
+  }
+  post(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("POST", route, handler, details);
+  }
+  put(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("PUT", route, handler, details);
+  }
+  delete(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("DELETE", route, handler, details);
+  }
+  patch(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("PATCH", route, handler, details);
+  }
+  head(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("HEAD", route, handler, details);
+  }
+  options(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("OPTIONS", route, handler, details);
+  }
+  connect(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("CONNECT", route, handler, details);
+  }
+  trace(route: string, handler: EventHandler | H3, details?: H3RouteDetails) {
+    return this.on("TRACE", route, handler, details);
+  }
+  on(
+    method: HTTPMethod | Lowercase<HTTPMethod> | "",
+    route: string,
+    handler: EventHandler | H3,
+    details?: H3RouteDetails,
+  ): this {
+    const _handler = ((handler as H3)?.handler || handler) as EventHandler;
+    // Group middleware is read on each request so `use()` order within the group does not matter
+    const middleware = this._middleware;
+    const groupHandler: EventHandler = Object.assign(
+      (event: H3Event) => callMiddleware(event, middleware, _handler),
+      <Partial<EventHandler>>{
+        resolve: _handler.resolve,
+        resolveURL: _handler.resolveURL,
+        allowedMethods: _handler.allowedMethods,
+        routes: _handler.routes,
+        websocket: _handler.websocket,
+      },
+    );
+    const meta =
+      this._meta || details?.meta
+        ? { ...this._meta, ...details?.meta }
+        : undefined;
+    this._parent.on(method, joinURL(this.prefix, route), groupHandler, {
+      ...details,
+      meta,
+    });
+    return this;
+  }
+}
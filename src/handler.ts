@@ -15,6 +15,7 @@
  * H3Event: H3事件对象，包含请求和响应信息
  * RequestMiddleware: 请求中间件，在处理请求前执行
  * ResponseMiddleware: 响应中间件，在发送响应前执行
+ * Middleware: 洋葱式中间件，可以通过next()包裹后续的处理流程
  * EventHandler: 事件处理器函数，处理请求并返回响应
  * EventHandlerRequest: 事件处理器请求类型
  * EventHandlerResponse: 事件处理器响应类型
@@ -23,6 +24,7 @@
 import type {
   DynamicEventHandler,
   H3Event,
+  Middleware,
   RequestMiddleware,
   ResponseMiddleware,
 } from "./types";
@@ -32,6 +34,7 @@ import type {
   EventHandlerResponse,
   EventHandlerObject,
 } from "./types";
+import { kNotFound } from "./response";
 
 /**
  * 事件处理器钩子类型
@@ -61,6 +64,13 @@ type _EventHandlerHooks<
    * 这就像是工人在关门前要做的收尾工作，比如整理物品、确认没有遗漏什么等。
    */
   onBeforeResponse?: ResponseMiddleware<Request, Response>[];
+
+  /**
+   * 洋葱式中间件，包裹在主处理器外层执行
+   *
+   * 这就像是工人在开门时请同事站在旁边，等工人处理完再一起检查结果。
+   */
+  middleware?: Middleware<Request>[];
 };
 
 /**
@@ -139,6 +149,8 @@ export function defineEventHandler<
     onRequest: _normalizeArray(handler.onRequest),
     // 规范化响应钩子，确保它是一个数组
     onBeforeResponse: _normalizeArray(handler.onBeforeResponse),
+    // 洋葱式中间件，只有在提供了非空数组时才启用
+    middleware: handler.middleware?.length ? handler.middleware : undefined,
   };
   
   // 创建一个新的处理器函数，它会调用原始处理器并应用钩子
@@ -148,6 +160,10 @@ export function defineEventHandler<
   
   // 复制原始处理器的resolve方法（用于路由解析）
   _handler.resolve = handler.handler.resolve;
+  // 复制反向生成命名路由URL的方法
+  _handler.resolveURL = handler.handler.resolveURL;
+  // 复制列出路由表的方法
+  _handler.routes = handler.handler.routes;
   // 复制WebSocket相关的钩子
   _handler.websocket = { hooks: handler.websocket };
   
@@ -205,7 +221,10 @@ async function _callHandler<
   }
   
   // 执行主处理器函数并获取响应体
-  const body = await handler(event);
+  // 如果有洋葱式中间件，主处理器会被它们一层层包裹起来执行
+  const body = (await (hooks.middleware
+    ? callMiddleware(event, hooks.middleware, handler)
+    : handler(event))) as Awaited<Response>;
   // 创建响应对象，包含响应体
   const response = { body };
   
@@ -260,6 +279,103 @@ export function defineResponseMiddleware<
   return fn;
 }
 
+/**
+ * 定义洋葱式中间件
+ *
+ * 这个函数用于创建带有`next`参数的中间件。调用`next()`会执行后续的中间件和路由处理器，
+ * 并返回它们的结果，所以中间件可以在处理器执行前后都运行代码。
+ *
+ * 这就像是工人请了一位助手：助手先开门，把访客交给工人（next），
+ * 等工人处理完以后，助手还可以再记录一下访客停留了多久。
+ *
+ * @example
+ * app.use(defineMiddleware(async (event, next) => {
+ *   const start = Date.now();
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     console.log(`${event.path} took ${Date.now() - start}ms`);
+ *   }
+ * }));
+ *
+ * @template Request - 请求类型，默认为EventHandlerRequest
+ * @param fn - 洋葱式中间件函数
+ * @returns 洋葱式中间件函数（原样返回）
+ */
+export function defineMiddleware<
+  Request extends EventHandlerRequest = EventHandlerRequest,
+>(fn: Middleware<Request>): Middleware<Request> {
+  // 和defineRequestMiddleware一样，主要是为了提供类型安全
+  return fn;
+}
+
+/**
+ * 按顺序执行中间件链
+ *
+ * 每个中间件都会收到`event`和`next`两个参数。普通的事件处理器会忽略`next`，
+ * 它们返回`undefined`（或`kNotFound`）时会自动继续执行下一个；
+ * 洋葱式中间件则可以主动调用`next()`并等待下游的结果。
+ *
+ * 为了保持同步处理器的性能，只要没有遇到Promise，整条链都会同步执行。
+ *
+ * 这就像是一排工人接力处理同一个访客：前面的工人可以直接接待访客（返回结果），
+ * 也可以把访客交给后面的工人（next），等后面的人处理完再收尾。
+ *
+ * @param event - H3事件对象
+ * @param middleware - 中间件列表
+ * @param handler - 所有中间件之后执行的最终处理器
+ * @param index - 当前执行到的中间件位置（内部递归使用）
+ * @returns 中间件链的结果，可能是Promise
+ */
+export function callMiddleware(
+  event: H3Event,
+  middleware: Middleware[],
+  handler: (event: H3Event) => unknown,
+  index = 0,
+): unknown {
+  // 所有中间件都执行完了，交给最终处理器
+  if (index === middleware.length) {
+    return handler(event);
+  }
+
+  // 记住下游的结果，保证无论next()被调用几次，下游都只执行一次
+  let nextCalled = false;
+  let nextResult: unknown;
+  const callNext = () => {
+    if (!nextCalled) {
+      nextCalled = true;
+      nextResult = callMiddleware(event, middleware, handler, index + 1);
+    }
+    return nextResult;
+  };
+
+  // 暴露给中间件的next()总是返回Promise，同步抛出的错误也会变成rejected Promise
+  const next = () => {
+    try {
+      return Promise.resolve(callNext());
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  };
+
+  const result = middleware[index](event, next);
+  if (result instanceof Promise) {
+    return result.then((resolved) =>
+      _isEmptyResult(resolved) ? callNext() : resolved,
+    );
+  }
+  return _isEmptyResult(result) ? callNext() : result;
+}
+
+/**
+ * 判断中间件的返回值是否表示“没有处理”
+ *
+ * `undefined`和`kNotFound`都表示当前中间件没有给出响应，应该继续交给下游。
+ */
+function _isEmptyResult(result: unknown): boolean {
+  return result === undefined || result === kNotFound;
+}
+
 /**
  * 定义动态事件处理器
  * 
@@ -41,6 +41,7 @@ export { isEvent, mockEvent } from "./utils/event";
  * dynamicEventHandler: 定义一个可以动态变化的事件处理器
  * defineRequestMiddleware: 定义一个请求中间件，在请求处理前执行
  * defineResponseMiddleware: 定义一个响应中间件，在响应发送前执行
+ * defineMiddleware: 定义一个洋葱式中间件，可以通过next()在处理器前后执行代码
  */
 export {
   defineEventHandler,
@@ -48,6 +49,7 @@ export {
   dynamicEventHandler,
   defineRequestMiddleware,
   defineResponseMiddleware,
+  defineMiddleware,
 } from "./handler";
 
 /**
@@ -160,8 +162,13 @@ export {
  * 这些函数用于读取和验证HTTP请求体：
  * readBody: 读取请求体的内容
  * readValidatedBody: 读取并验证请求体的内容
+ * readMultipartFormData: 以流的方式读取multipart表单中的字段和文件
  */
-export { readBody, readValidatedBody } from "./utils/body";
+export {
+  readBody,
+  readValidatedBody,
+  readMultipartFormData,
+} from "./utils/body";
 
 /**
  * Cookie处理工具
@@ -200,15 +207,42 @@ export { sanitizeStatusCode, sanitizeStatusMessage } from "./utils/sanitize";
  * 缓存处理工具
  * 
  * handleCacheHeaders: 处理HTTP缓存相关的头部信息，帮助实现有效的缓存策略
+ * etag: 创建一个根据响应内容自动生成ETag的中间件，内容没有变化时返回304
  */
-export { handleCacheHeaders } from "./utils/cache";
+export { handleCacheHeaders, etag } from "./utils/cache";
 
 /**
  * 静态文件服务工具
  * 
  * serveStatic: 提供静态文件服务，如HTML、CSS、JavaScript、图片等
+ * serveStaticDir: 直接从文件系统的目录中提供静态文件服务（Node.js、Bun、Deno）
+ */
+export { serveStatic, serveStaticDir } from "./utils/static";
+
+/**
+ * 内容协商工具
+ *
+ * 这些函数根据请求的Accept-*头部选择最合适的响应：
+ * negotiate: 根据Accept头部选择响应格式（JSON、HTML、CSV等），没有合适的格式时返回406
+ * negotiateType: 选出最合适的媒体类型
+ * negotiateLanguage: 选出最合适的语言
+ * negotiateCharset: 选出最合适的字符集
+ * negotiateEncoding: 选出最合适的编码（压缩方式）
+ */
+export {
+  negotiate,
+  negotiateType,
+  negotiateLanguage,
+  negotiateCharset,
+  negotiateEncoding,
+} from "./utils/negotiate";
+
+/**
+ * 响应压缩工具
+ *
+ * compress: 创建一个根据Accept-Encoding头部用br、gzip或deflate压缩响应的中间件
  */
-export { serveStatic } from "./utils/static";
+export { compress } from "./utils/compress";
 
 /**
  * 基础路径工具
@@ -217,12 +251,29 @@ export { serveStatic } from "./utils/static";
  */
 export { withBase } from "./utils/base";
 
+/**
+ * OpenAPI文档工具
+ *
+ * generateOpenAPI: 根据应用的路由表生成OpenAPI 3.1文档
+ * defineOpenAPIHandler: 创建一个返回OpenAPI文档的事件处理器（如"/openapi.json"）
+ */
+export { generateOpenAPI, defineOpenAPIHandler } from "./utils/openapi";
+
+/**
+ * 请求客户端
+ *
+ * createClient: 根据H3应用的类型创建一个类型安全的请求客户端
+ */
+export { createClient } from "./utils/client";
+
 /**
  * 会话管理工具
  * 
  * 这些函数用于管理用户会话：
  * clearSession: 清除用户会话
+ * createMemorySessionStore: 创建内存中的会话存储（LRU）
  * getSession: 获取用户会话数据
+ * regenerateSession: 重新生成会话ID（防止会话固定攻击）
  * sealSession: 加密并密封会话数据
  * unsealSession: 解密并打开密封的会话数据
  * updateSession: 更新会话数据
@@ -230,7 +281,9 @@ export { withBase } from "./utils/base";
  */
 export {
   clearSession,
+  createMemorySessionStore,
   getSession,
+  regenerateSession,
   sealSession,
   unsealSession,
   updateSession,
@@ -8,11 +8,18 @@
 
 // 导入必要的类型和函数
 import type { H3Config, H3Event } from "./types";  // H3配置和事件类型
-import type { H3Error, PreparedResponse } from "./types/h3";  // H3错误和准备好的响应类型
+import type { H3Error, PreparedResponse, ProblemDetails } from "./types/h3";  // H3错误和准备好的响应类型
 import type { H3WebEvent } from "./event";  // H3 Web事件类型
 import { Response as SrvxResponse } from "srvx";  // 从服务库导入响应类
 import { createError } from "./error";  // 导入创建错误的函数
 import { isJSONSerializable } from "./utils/internal/object";  // 导入检查对象是否可以转换为JSON的函数
+import {
+  appendVary,
+  matchMediaType,
+  parseAcceptHeader,
+  sortByAccept,
+} from "./utils/internal/negotiate";  // 导入解析Accept请求头的工具函数
+import { renderErrorPage } from "./utils/internal/error-page";  // 导入渲染HTML错误页面的函数
 
 /**
  * 特殊符号常量，用于表示未找到路由
@@ -175,13 +182,28 @@ export function prepareResponseBody(
     return prepareErrorResponseBody(val, event, config);
   }
 
+  // 自定义序列化 - 如果配置了序列化器，先看看有没有合适的
+  // 就像顾客要求用保温盒打包，就交给专门的打包师傅
+  // 只有配置了序列化器时才会查找，没有序列化器的应用不需要额外的开销
+  if (config.serializers && isSerializableData(val, valType)) {
+    const serializer = config.serializers.find(
+      (s) => !s.test || s.test(val, event),
+    );
+    if (serializer) {
+      if (serializer.type) {
+        event.response.setHeader("content-type", serializer.type);
+      }
+      return serializer.serialize(val, event);
+    }
+  }
+
   // JSON处理 - 如果是可以转换为JSON的对象
   // 就像把复杂的菜单转换成一种特定格式，让所有人都能读懂
   if (isJSONSerializable(val, valType)) {
     // 设置内容类型为JSON，并指定字符编码
     event.response.setHeader("content-type", "application/json; charset=utf-8");
     // 将对象转换为JSON字符串，如果是调试模式则美化输出(缩进2空格)
-    return JSON.stringify(val, undefined, config.debug ? 2 : undefined);
+    return JSON.stringify(val, config.jsonReplacer, config.debug ? 2 : undefined);
   }
 
   // 大整数处理 - 如果是bigint类型(超过普通整数范围的数字)
@@ -235,6 +257,32 @@ export function prepareResponseBody(
   return val as BodyInit;
 }
 
+/**
+ * 检查值是否是可以交给序列化器处理的普通数据
+ *
+ * 字符串、二进制（ArrayBuffer和各种类型化数组）、错误、FormData、URLSearchParams、
+ * Response、Blob和流等已经有固定的处理方式，不会交给序列化器。
+ *
+ * @param val 要发送的数据
+ * @param valType 数据的类型（typeof的结果）
+ * @returns 如果是普通数据返回true
+ */
+function isSerializableData(val: any, valType: string): boolean {
+  if (valType !== "object") {
+    return valType === "number" || valType === "boolean" || valType === "bigint";
+  }
+  return !(
+    val instanceof ArrayBuffer ||
+    ArrayBuffer.isView(val) ||
+    val instanceof FormData ||
+    val instanceof URLSearchParams ||
+    val instanceof Response ||
+    val instanceof Blob ||
+    typeof val.pipe === "function" ||
+    typeof val.pipeTo === "function"
+  );
+}
+
 /**
  * 准备错误响应体
  * 
@@ -258,6 +306,30 @@ export function prepareErrorResponseBody(
   event.response.status = error.statusCode;  // 例如404、500等
   event.response.statusText = error.statusMessage;  // 例如"Not Found"、"Internal Server Error"
   
+  // 如果是调试模式且错误有堆栈信息，则包含堆栈信息
+  // 堆栈信息就像错误发生的路径，帮助开发者定位问题
+  const stack =
+    config.debug && error.stack
+      ? error.stack.split("\n").map((l) => l.trim())  // 将堆栈按行分割并去除多余空格
+      : undefined;  // 非调试模式下不返回堆栈信息，避免泄露敏感信息
+
+  // 浏览器请求返回HTML错误页面（调试模式下包含详细信息）
+  // 就像给堂食的顾客一张写好的说明卡，而不是一串只有机器才看得懂的代码
+  if (config.htmlErrors !== false && prefersHTML(event)) {
+    event.response.setHeader("content-type", "text/html; charset=utf-8");
+    return renderErrorPage(error, event, config.debug);
+  }
+
+  // RFC 9457 问题详情格式
+  // 就像用行业通用的问题说明单，外卖平台不用再翻译一遍
+  if (config.errorFormat === "problem+json") {
+    event.response.setHeader("content-type", "application/problem+json");
+    return JSON.stringify({
+      ...prepareProblemDetails(error, event, config),
+      stack,
+    });
+  }
+
   // 设置响应内容类型为JSON
   event.response.setHeader("content-type", "application/json; charset=utf-8");
   
@@ -266,11 +338,72 @@ export function prepareErrorResponseBody(
     statusCode: error.statusCode,  // 错误状态码
     statusMessage: error.statusMessage,  // 错误状态消息
     data: error.data,  // 错误相关的数据
-    stack:
-      // 如果是调试模式且错误有堆栈信息，则包含堆栈信息
-      // 堆栈信息就像错误发生的路径，帮助开发者定位问题
-      config.debug && error.stack
-        ? error.stack.split("\n").map((l) => l.trim())  // 将堆栈按行分割并去除多余空格
-        : undefined,  // 非调试模式下不返回堆栈信息，避免泄露敏感信息
+    stack,  // 错误堆栈（仅调试模式）
   });
 }
+
+/**
+ * 把H3错误转换成RFC 9457问题详情
+ *
+ * `data`中的字段作为扩展成员（不会覆盖标准成员），`data`不是对象时放在`data`成员中。
+ * 只有字符串的`data.type`和`data.instance`会被用作`type`和`instance`。
+ *
+ * @param error H3错误对象
+ * @param event HTTP请求事件
+ * @param config H3框架配置
+ * @returns 问题详情对象
+ */
+function prepareProblemDetails(
+  error: H3Error,
+  event: H3Event,
+  config: H3Config,
+): ProblemDetails {
+  const { data, message, statusCode: status, statusMessage: title } = error;
+  // 扩展成员，比如验证错误的`issues`
+  const extensions: Record<string, unknown> =
+    data && typeof data === "object" && !Array.isArray(data)
+      ? (data as Record<string, unknown>)
+      : { data };
+  // 先放扩展成员，后面计算出的标准成员总是会覆盖它们
+  return {
+    ...extensions,
+    type: typeof extensions.type === "string" ? extensions.type : "about:blank",
+    instance:
+      typeof extensions.instance === "string"
+        ? extensions.instance
+        : event.url.pathname,
+    title,
+    status,
+    // 5xx错误的消息可能包含内部信息，只在调试模式下返回
+    detail:
+      message && message !== title && (status < 500 || config.debug)
+        ? message
+        : undefined,
+  };
+}
+
+/**
+ * 检查客户端（通常是浏览器）是否更想要HTML而不是JSON
+ *
+ * 只有`text/html`的优先级比`application/json`和`application/problem+json`都高时才返回true，
+ * 优先级相同或者接受任意类型时仍然返回JSON。会给`vary`响应头加上`accept`。
+ *
+ * @param event HTTP请求事件
+ * @returns 如果应该返回HTML错误页面返回true
+ */
+function prefersHTML(event: H3Event): boolean {
+  const accept = event.request.headers.get("accept");
+  if (!accept) {
+    return false;
+  }
+  appendVary(event.response.headers, "accept");
+  // JSON类型排在前面，优先级相同时不会选择HTML
+  return (
+    accept.includes("text/html") &&
+    sortByAccept(
+      parseAcceptHeader(accept),
+      ["application/json", "application/problem+json", "text/html"],
+      matchMediaType,
+    )[0] === "text/html"
+  );
+}
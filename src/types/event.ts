@@ -9,7 +9,7 @@
 // EventHandlerRequest: 事件处理器请求类型
 // H3EventContext: H3事件上下文
 // HTTPMethod: HTTP请求方法（GET、POST等）
-import type { EventHandlerRequest, H3EventContext, HTTPMethod } from ".";
+import type { EventHandlerRequest, H3, H3EventContext, HTTPMethod } from ".";
 // ServerRequest: 服务器请求对象，来自srvx库
 import type { ServerRequest } from "srvx/types";
 
@@ -34,6 +34,15 @@ export interface H3Event<
    */
   readonly context: H3EventContext;
 
+  /**
+   * 处理这个请求的H3应用
+   *
+   * 通过它可以读取应用的全局配置（比如`maxBodySize`）。
+   * 这就像是点餐单上印着的餐厅名字，看到它就知道要遵守哪家餐厅的规矩。
+   * 手动创建的事件（比如`mockEvent`）没有这个属性。
+   */
+  readonly app?: H3;
+
   /**
    * Node.js特定属性
    * 
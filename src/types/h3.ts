@@ -13,6 +13,7 @@ import type { H3Event } from "./event";
 import type {
   EventHandler,
   EventHandlerRequest,
+  Middleware,
   ResolvedEventHandler,
 } from "./handler";
 // 导入错误类型，用于处理和格式化错误
@@ -21,6 +22,8 @@ import type { H3Error } from "../error";
 import type { HTTPMethod } from "./http";
 // 导入事件上下文类型，用于存储额外信息
 import type { H3EventContext } from "./context";
+// 导入OpenAPI元数据类型，用于生成接口文档
+import type { RouteOpenAPI } from "./utils/openapi";
 
 // 重新导出错误类型，方便其他模块使用
 export type { H3Error } from "../error";
@@ -50,6 +53,68 @@ export interface H3Config {
    */
   websocket?: WebSocketOptions;
 
+  /**
+   * 请求体大小限制（字节）
+   *
+   * 读取请求体（`readBody`、代理转发等）时允许的最大字节数，超过时返回413 Payload Too Large。
+   * 调用工具函数时传入的`maxBodySize`会覆盖这个全局设置。
+   * 这就像是餐厅规定每位顾客最多能带多少东西进门，太大的包裹会被挡在门外。
+   *
+   * @default 不限制
+   */
+  maxBodySize?: number;
+
+  /**
+   * 响应序列化器
+   *
+   * 处理器返回普通数据（对象、数组、Map、Date、bigint等）时，用这些序列化器代替默认的JSON。
+   * 通过`test`按数据的类型或者`Accept`请求头协商出的内容类型选择，
+   * 比如superjson、devalue、MessagePack或CBOR。
+   * 这就像是餐厅的打包方式：默认用普通餐盒（JSON），顾客要求的话也可以用保温盒或真空包装。
+   *
+   * @see ResponseSerializer
+   */
+  serializers?: ResponseSerializer[];
+
+  /**
+   * JSON替换函数
+   *
+   * 默认的JSON序列化使用的`replacer`（和`JSON.stringify`的第二个参数一样），
+   * 比如可以把嵌套的`bigint`转换成字符串。
+   * 这就像是打包前的最后处理，比如把某些食材换成更适合打包的版本。
+   */
+  jsonReplacer?: (this: unknown, key: string, value: unknown) => unknown;
+
+  /**
+   * 错误响应格式
+   *
+   * - `"json"`：`{ statusCode, statusMessage, data, stack }`，内容类型为`application/json`
+   * - `"problem+json"`：RFC 9457定义的`application/problem+json`格式，
+   *   包含`type`、`title`、`status`、`detail`、`instance`，`data`中的字段会作为扩展成员
+   *   （比如`validateData`的`issues`）
+   *
+   * 这就像是餐厅出问题时给顾客的说明单：可以用餐厅自己的格式，也可以用行业通用的格式，
+   * 这样外卖平台（API网关、SDK）不用再翻译一遍。
+   *
+   * @default "json"
+   * @see ProblemDetails
+   */
+  errorFormat?: "json" | "problem+json";
+
+  /**
+   * HTML错误页面
+   *
+   * `Accept`请求头中`text/html`的优先级比JSON高时（浏览器直接打开页面就是这样），
+   * 错误（包括404和405）会以HTML页面发送。生产环境只显示状态码和状态消息，
+   * 开启`debug`时还会显示错误消息、请求信息、请求头、`event.context`、错误原因链和调用栈。
+   * 设置为`false`时总是按照`errorFormat`发送。
+   *
+   * 就像堂食的顾客拿到一张说明卡，外卖平台仍然拿到机器能读的说明单。
+   *
+   * @default true
+   */
+  htmlErrors?: boolean;
+
   /**
    * 错误处理函数
    * 
@@ -92,6 +157,100 @@ export interface H3Config {
   ) => MaybePromise<void>;
 }
 
+/**
+ * 响应序列化器
+ *
+ * 定义了如何把处理器返回的数据转换成响应体。
+ *
+ * 选择规则：
+ * - 按数组的顺序，第一个`test`通过（或者没有`test`）的序列化器生效。
+ * - 要按`Accept`请求头选择时，在`test`中使用`negotiateType`，把`application/json`（默认的JSON）放在最前面，
+ *   这样只有当客户端明确更喜欢这个类型时才会使用它，方便逐步迁移。
+ * - 都不匹配时使用默认的JSON序列化。
+ *
+ * 这就像是特殊的打包师傅：有的师傅只打包某种菜，有的师傅只在顾客要求时才出手（`test`）。
+ *
+ * @example
+ * import superjson from "superjson";
+ *
+ * const app = createH3({
+ *   serializers: [
+ *     {
+ *       type: "application/x-superjson",
+ *       test: (_value, event) =>
+ *         negotiateType(event, [
+ *           "application/json",
+ *           "application/x-superjson",
+ *         ]) === "application/x-superjson",
+ *       serialize: (value) => superjson.stringify(value),
+ *     },
+ *   ],
+ * });
+ */
+export interface ResponseSerializer {
+  /**
+   * 序列化后的内容类型（如`application/x-superjson`）
+   *
+   * 设置了这个属性时，这个类型会被设置为`content-type`响应头。
+   */
+  type?: string;
+
+  /**
+   * 检查这个序列化器能否处理某个值
+   *
+   * 没有设置时可以处理所有值。也可以在这里检查请求，比如用`negotiateType`协商`Accept`请求头。
+   */
+  test?: (value: unknown, event: H3Event) => boolean;
+
+  /**
+   * 把值转换成响应体
+   */
+  serialize: (value: unknown, event: H3Event) => BodyInit;
+}
+
+/**
+ * 问题详情（RFC 9457）
+ *
+ * `errorFormat`设置为`"problem+json"`时错误响应的格式。
+ * 除了标准成员之外，错误的`data`中的字段会作为扩展成员（比如验证错误的`issues`），
+ * `data`不是对象时放在`data`成员中。
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9457
+ *
+ * @example
+ * {
+ *   "type": "about:blank",
+ *   "title": "Validation Error",
+ *   "status": 400,
+ *   "detail": "Invalid email address",
+ *   "instance": "/users",
+ *   "issues": [{ "path": ["email"], "message": "Invalid email address" }]
+ * }
+ */
+export interface ProblemDetails {
+  /**
+   * 问题类型的URI，默认为`about:blank`（这时问题就是HTTP状态码本身）
+   *
+   * 可以通过错误的`data.type`（字符串）设置。
+   */
+  type: string;
+
+  /** 问题的简短描述（错误的`statusMessage`） */
+  title?: string;
+
+  /** HTTP状态码 */
+  status: number;
+
+  /** 这次问题的具体说明（错误的`message`），为了避免泄露内部信息，5xx错误只在调试模式下包含 */
+  detail?: string;
+
+  /** 发生问题的资源（默认为请求路径），可以通过错误的`data.instance`（字符串）设置 */
+  instance?: string;
+
+  /** 扩展成员 */
+  [key: string]: unknown;
+}
+
 /**
  * 准备好的响应类型
  * 
@@ -170,6 +329,171 @@ export interface H3Route {
    * 这就像是负责制作这道菜的厨师。
    */
   handler: EventHandler;
+
+  /**
+   * 路由名称
+   *
+   * 给路由起一个名字（如"user.show"），之后可以用`app.url(name, params)`反向生成URL，
+   * 不用在模板和重定向里写死路径。
+   * 这就像是给菜品起一个编号，服务员报“5号菜”，厨房就知道是哪道菜。
+   */
+  name?: string;
+
+  /**
+   * 路由元数据
+   *
+   * 附加在路由上的任意信息，比如接口说明、标签等。
+   * 这就像是菜单上菜品旁边的小注释（“招牌菜”、“微辣”），不影响做菜，但方便别人了解这道菜。
+   */
+  meta?: Record<string, unknown>;
+
+  /**
+   * OpenAPI元数据
+   *
+   * 路由的说明、标签以及请求和响应的结构，`generateOpenAPI(app)`会用它生成接口文档。
+   * 这就像是印在菜单上的菜品介绍：用料（请求）和成品（响应）都写得清清楚楚。
+   */
+  openapi?: RouteOpenAPI;
+}
+
+/**
+ * 路由表条目
+ *
+ * `app.routes()`返回的每一项，描述一个已注册的路由或中间件。
+ * 这就像是菜单目录里的一行：菜名、编号、做法和备注。
+ */
+export interface H3RouteInfo {
+  /**
+   * HTTP方法
+   *
+   * 空字符串表示匹配所有方法。
+   */
+  method: HTTPMethod | "";
+
+  /**
+   * 完整的路由路径
+   *
+   * 包含分组前缀以及子应用的基础路径；全局中间件的路径为"/**"。
+   */
+  route: string;
+
+  /** 路由名称 */
+  name?: string;
+
+  /** 路由元数据 */
+  meta?: Record<string, unknown>;
+
+  /** OpenAPI元数据 */
+  openapi?: RouteOpenAPI;
+
+  /**
+   * 是否是中间件
+   *
+   * 通过`use()`注册的条目为`true`，通过`on()`/`get()`等注册的路由为`false`。
+   */
+  middleware: boolean;
+}
+
+/**
+ * 路由详情
+ *
+ * 注册路由时可以传入的额外信息（第三个参数）。
+ */
+export type H3RouteDetails = Pick<H3Route, "name" | "meta" | "openapi">;
+
+/**
+ * 路由分组选项
+ *
+ * 创建路由分组时可以传入的选项，分组里的每个路由都会继承这些选项。
+ * 这就像是餐厅的“套餐区”，区里的每道菜都共用同样的服务流程和标签。
+ */
+export interface H3RouteGroupOptions {
+  /**
+   * 分组中间件
+   *
+   * 只对这个分组里的路由生效的洋葱式中间件，会在通过`group.use()`添加的中间件之前执行。
+   */
+  middleware?: Middleware[];
+
+  /**
+   * 分组元数据
+   *
+   * 会合并到分组里每个路由的`meta`中，路由自己的`meta`优先。
+   */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * 路由分组接口
+ *
+ * 通过`app.group(prefix, (group) => {...})`拿到的分组对象。
+ * 分组里注册的路由会加上分组前缀，注册到同一个路由器中；
+ * 分组里的中间件只会在匹配到这个分组的路由时执行。
+ *
+ * 这就像是餐厅里的“包间”：包间里的客人享受专属服务员（分组中间件），
+ * 但点的菜还是由同一个厨房（同一个路由器）来做。
+ */
+export interface H3RouteGroup {
+  /**
+   * 分组前缀
+   *
+   * 相对于上一级（应用或父分组）的路径前缀，如"/api/v1"。
+   */
+  readonly prefix: string;
+
+  /**
+   * 添加分组中间件
+   *
+   * 中间件只对这个分组（以及子分组）里的路由生效，
+   * 不管是在注册路由之前还是之后调用`use()`，都会作用于分组里的所有路由。
+   *
+   * @param middleware - 洋葱式中间件
+   * @returns 分组对象，允许链式调用
+   */
+  use(middleware: Middleware): H3RouteGroup;
+
+  /**
+   * 创建子分组
+   *
+   * 子分组的前缀会拼接在当前分组前缀之后，并继承当前分组的中间件和元数据。
+   *
+   * @param prefix - 子分组前缀
+   * @param fn - 用于注册子分组路由的函数
+   * @param options - 子分组选项
+   * @returns 当前分组对象，允许链式调用
+   */
+  group(
+    prefix: string,
+    fn: (group: H3RouteGroup) => void,
+    options?: H3RouteGroupOptions,
+  ): H3RouteGroup;
+
+  /**
+   * 添加指定HTTP方法的路由
+   *
+   * @param method - HTTP方法
+   * @param path - 相对于分组前缀的路由路径
+   * @param handler - 处理函数或H3实例
+   * @param details - 路由详情
+   * @returns 分组对象，允许链式调用
+   */
+  on: (
+    method: "" | HTTPMethod | Lowercase<HTTPMethod>,
+    path: string,
+    handler: EventHandler | H3,
+    details?: H3RouteDetails,
+  ) => H3RouteGroup;
+
+  all: AddGroupRoute;
+  get: AddGroupRoute;
+  post: AddGroupRoute;
+  put: AddGroupRoute;
+  delete: AddGroupRoute;
+  patch: AddGroupRoute;
+  head: AddGroupRoute;
+  options: AddGroupRoute;
+  connect: AddGroupRoute;
+  trace: AddGroupRoute;
 }
 
 /**
@@ -181,9 +505,104 @@ export interface H3Route {
  * 
  * @param route - 路由路径
  * @param handler - 处理函数或H3实例
+ * @param details - 路由详情
  * @returns H3实例，允许链式调用
  */
-type AddRoute = (route: string, handler: EventHandler | H3) => H3;
+type AddRoute<Routes extends H3RouteMap, Method extends string> = <
+  Route extends string,
+  Handler extends EventHandler | H3,
+>(
+  route: Route,
+  handler: Handler,
+  details?: H3RouteDetails,
+) => H3<WithRoute<Routes, Route, Method, Handler>>;
+
+/**
+ * 路由类型表
+ *
+ * 记录了应用里注册过的每个路由的请求和响应类型：`路径 → HTTP方法 → 类型`。
+ * 匹配所有方法的路由（`all()`）记录在空字符串方法下。
+ *
+ * 这就像是餐厅给外卖平台的菜单数据：每道菜需要什么配料、会送来什么，都写得清清楚楚，
+ * 外卖平台（`createClient`）据此检查顾客的订单是否正确。
+ */
+export type H3RouteMap = Record<string, Record<string, H3RouteTypes>>;
+
+/**
+ * 单个路由的类型信息
+ */
+export interface H3RouteTypes {
+  /** 路由参数（从路径中的`:name`和`**`推断） */
+  params: Record<string, string>;
+  /** 查询参数 */
+  query: unknown;
+  /** 请求体 */
+  body: unknown;
+  /** 响应数据（处理器返回值的类型） */
+  response: unknown;
+}
+
+/**
+ * 从路由路径推断路由参数
+ *
+ * 例如："/users/:id/posts/:postId" => { id: string; postId: string }，
+ * "/files/**:path" => { path: string }，"/files/**" => { _: string }
+ */
+export type RouteParams<Route extends string> = {
+  [Name in _RouteParamNames<Route>]: string;
+};
+
+type _RouteParamNames<Route extends string> =
+  Route extends `${infer Segment}/${infer Rest}`
+    ? _SegmentParamName<Segment> | _RouteParamNames<Rest>
+    : _SegmentParamName<Route>;
+
+type _SegmentParamName<Segment extends string> = Segment extends "**"
+  ? "_"
+  : Segment extends `${string}:${infer Name}`
+    ? Name
+    : never;
+
+/**
+ * 把一个路由加入路由类型表
+ */
+type WithRoute<
+  Routes extends H3RouteMap,
+  Route extends string,
+  Method extends string,
+  Handler,
+> = Routes & {
+  [R in Route]: {
+    [M in Uppercase<Method>]: {
+      params: RouteParams<Route>;
+      query: _HandlerRequest<Handler>["query"];
+      body: _HandlerRequest<Handler>["body"];
+      response: _HandlerResponse<Handler>;
+    };
+  };
+};
+
+type _HandlerRequest<Handler> =
+  Handler extends EventHandler<infer Req, any> ? Req : EventHandlerRequest;
+
+// 直接返回Response对象时无法推断响应数据的类型
+type _HandlerResponse<Handler> =
+  Handler extends EventHandler<any, infer Res>
+    ? Awaited<Res> extends Response
+      ? unknown
+      : Awaited<Res>
+    : unknown;
+
+/**
+ * 向分组添加路由的类型
+ *
+ * 和`AddRoute`一样，只是返回分组对象，方便在分组里链式调用。
+ */
+type AddGroupRoute = (
+  route: string,
+  handler: EventHandler | H3,
+  details?: H3RouteDetails,
+) => H3RouteGroup;
 
 /**
  * 可能是Promise类型
@@ -206,7 +625,15 @@ type MaybePromise<T = unknown> = T | Promise<T>;
  * 这就像是整个餐厅的管理系统，协调所有的厨师、服务员和设备，
  * 确保顾客的请求被正确处理。
  */
-export interface H3 {
+export interface H3<Routes extends H3RouteMap = Record<never, never>> {
+  /**
+   * 路由类型表（仅用于类型推断）
+   *
+   * 通过`get()`、`post()`等方法注册路由时会累积每个路由的请求和响应类型，
+   * `createClient<typeof app>()`用它来提供类型安全的请求方法。运行时没有这个属性。
+   */
+  readonly "~routes"?: Routes;
+
   /**
    * 服务器配置
    * 
@@ -269,22 +696,94 @@ export interface H3 {
     path: string,
   ) => Promise<ResolvedEventHandler | undefined>;
 
+  /**
+   * 生成命名路由的URL
+   *
+   * 根据路由名称和参数反向生成URL。`:param`和`*`会被对应的参数替换（并进行URL编码），
+   * `**`会被`_`参数（或`**:name`中的name参数）替换，可以包含多级路径。
+   * 通过`withBase`或直接挂载的子应用里的命名路由也能找到，并会带上基础路径。
+   *
+   * 这就像是报出菜品编号和桌号，服务员就能写出完整的送餐单。
+   *
+   * @example
+   * app.get("/users/:id", handler, { name: "user.show" });
+   * app.url("user.show", { id: 1 }, { tab: "posts" }); // "/users/1?tab=posts"
+   *
+   * @param name - 路由名称
+   * @param params - 路由参数
+   * @param query - 查询参数，会被追加到URL后面
+   * @returns 生成的URL
+   * @throws 找不到路由名称或缺少必需参数时抛出错误
+   */
+  url(
+    name: string,
+    params?: Record<string, string | number>,
+    query?: Record<string, unknown>,
+  ): string;
+
+  /**
+   * 列出所有路由
+   *
+   * 返回一个扁平的路由表，包含通过`use()`注册的中间件和挂载的子应用里的路由
+   * （子应用的路由会带上`withBase`的基础路径）。
+   * 可以用于启动日志、管理后台或者断言路由表的契约测试。
+   *
+   * 这就像是把餐厅所有分店的菜单合并成一本总菜单。
+   *
+   * @returns 路由表，按注册顺序排列
+   */
+  routes(): H3RouteInfo[];
+
+  /**
+   * 解析命名路由的URL
+   *
+   * 和`url()`一样，只是找不到路由名称时返回`undefined`而不是抛出错误。
+   * 父应用通过它在挂载的子应用中查找命名路由。
+   *
+   * @param name - 路由名称
+   * @param params - 路由参数
+   * @param query - 查询参数
+   * @returns 生成的URL或undefined
+   */
+  resolveURL: (
+    name: string,
+    params?: Record<string, string | number>,
+    query?: Record<string, unknown>,
+  ) => string | undefined;
+
+  /**
+   * 列出路径上注册了路由的HTTP方法
+   *
+   * 请求的方法没有匹配的路由时，用它来返回 405 和`Allow`响应头。
+   * 挂载的子应用（`app.use(subApp)`、`app.all("/api/**", subApp)`）里的路由也会算进去，
+   * 父应用通过它向子应用询问。
+   *
+   * 这就像是顾客点了菜单上没有的做法，服务员告诉他这道菜可以怎么做。
+   *
+   * @param path - 请求路径
+   * @returns HTTP方法列表（如`["GET", "POST"]`）
+   */
+  allowedMethods(path: string): string[];
+
   /**
    * 添加中间件或路由
    * 
    * 向服务器添加中间件或路由处理器。
    * 这就像是餐厅添加新的工作流程或菜单项。
    * 
+   * 处理函数也可以声明第二个参数`next`，成为洋葱式中间件，
+   * 只对匹配这个路由的请求生效。
+   * 
    * @param route - 路由路径
-   * @param handler - 处理函数或H3实例
+   * @param handler - 处理函数（也可以是洋葱式中间件）或H3实例
    * @param details - 路由详情
    * @returns H3实例，允许链式调用
    */
   use(
     route: string,
-    handler: EventHandler | H3,
+    handler: Middleware | H3,
     details?: Partial<H3Route>,
-  ): H3;
+  ): H3<Routes>;
   
   /**
    * 添加中间件
@@ -292,11 +791,17 @@ export interface H3 {
    * 向服务器添加全局中间件。
    * 这就像是餐厅添加新的工作流程，应用于所有订单。
    * 
-   * @param handler - 处理函数或H3实例
+   * 如果中间件声明了`next`参数，可以通过`await next()`拿到路由处理器的结果，
+   * 在处理器执行之后继续运行代码。
+   * 
+   * @param handler - 处理函数（也可以是洋葱式中间件）或H3实例
    * @param details - 路由详情
    * @returns H3实例，允许链式调用
    */
-  use(handler: EventHandler | H3, details?: Partial<H3Route>): H3;
+  use(
+    handler: Middleware | H3,
+    details?: Partial<H3Route>,
+  ): H3<Routes>;
   
   /**
    * 添加路由对象
@@ -307,7 +812,7 @@ export interface H3 {
    * @param details - 路由对象
    * @returns H3实例，允许链式调用
    */
-  use(details: H3Route): H3;
+  use(details: H3Route): H3<Routes>;
 
   /**
    * 添加指定HTTP方法的路由
@@ -318,13 +823,46 @@ export interface H3 {
    * @param method - HTTP方法
    * @param path - 路由路径
    * @param handler - 处理函数或H3实例
+   * @param details - 路由详情
    * @returns H3实例，允许链式调用
    */
-  on: (
-    method: "" | HTTPMethod | Lowercase<HTTPMethod>,
-    path: string,
-    handler: EventHandler | H3,
-  ) => H3;
+  on: <
+    Method extends "" | HTTPMethod | Lowercase<HTTPMethod>,
+    Route extends string,
+    Handler extends EventHandler | H3,
+  >(
+    method: Method,
+    path: Route,
+    handler: Handler,
+    details?: H3RouteDetails,
+  ) => H3<WithRoute<Routes, Route, Method, Handler>>;
+
+  /**
+   * 添加路由分组
+   *
+   * 把一组有共同前缀的路由放在一起注册，分组里的路由和其他路由共用同一个路由器，
+   * `resolve()`和`event.context.matchedRoute`会得到拼接前缀后的完整路由。
+   * 分组里通过`group.use()`添加的中间件只对分组里的路由生效。
+   *
+   * 这就像是餐厅把“早餐”相关的菜品都放在菜单的同一页，
+   * 并且只有点早餐的客人才会收到免费的豆浆（分组中间件）。
+   *
+   * @example
+   * app.group("/api/v1", (group) => {
+   *   group.use(auth);
+   *   group.get("/users", () => []);
+   * });
+   *
+   * @param prefix - 分组前缀
+   * @param fn - 用于注册分组路由的函数
+   * @param options - 分组选项，分组里的每个路由都会继承
+   * @returns H3实例，允许链式调用
+   */
+  group(
+    prefix: string,
+    fn: (group: H3RouteGroup) => void,
+    options?: H3RouteGroupOptions,
+  ): H3<Routes>;
   
   /**
    * 添加支持所有HTTP方法的路由
@@ -332,7 +870,7 @@ export interface H3 {
    * 向服务器添加一个处理所有HTTP方法的路由。
    * 这就像是餐厅添加一个万能菜品，无论顾客如何要求，都由同一个厨师处理。
    */
-  all: AddRoute;
+  all: AddRoute<Routes, "">;
   
   /**
    * 添加GET方法的路由
@@ -340,7 +878,7 @@ export interface H3 {
    * 向服务器添加一个处理GET请求的路由。
    * 这就像是餐厅添加一个只提供查询服务的菜单项。
    */
-  get: AddRoute;
+  get: AddRoute<Routes, "GET">;
   
   /**
    * 添加POST方法的路由
@@ -348,7 +886,7 @@ export interface H3 {
    * 向服务器添加一个处理POST请求的路由。
    * 这就像是餐厅添加一个只接受新订单的菜单项。
    */
-  post: AddRoute;
+  post: AddRoute<Routes, "POST">;
   
   /**
    * 添加PUT方法的路由
@@ -356,7 +894,7 @@ export interface H3 {
    * 向服务器添加一个处理PUT请求的路由。
    * 这就像是餐厅添加一个只接受更新订单的菜单项。
    */
-  put: AddRoute;
+  put: AddRoute<Routes, "PUT">;
   
   /**
    * 添加DELETE方法的路由
@@ -364,7 +902,7 @@ export interface H3 {
    * 向服务器添加一个处理DELETE请求的路由。
    * 这就像是餐厅添加一个只接受取消订单的菜单项。
    */
-  delete: AddRoute;
+  delete: AddRoute<Routes, "DELETE">;
   
   /**
    * 添加PATCH方法的路由
@@ -372,7 +910,7 @@ export interface H3 {
    * 向服务器添加一个处理PATCH请求的路由。
    * 这就像是餐厅添加一个只接受部分修改订单的菜单项。
    */
-  patch: AddRoute;
+  patch: AddRoute<Routes, "PATCH">;
   
   /**
    * 添加HEAD方法的路由
@@ -380,7 +918,7 @@ export interface H3 {
    * 向服务器添加一个处理HEAD请求的路由。
    * 这就像是餐厅添加一个只提供菜品信息而不提供实际菜品的菜单项。
    */
-  head: AddRoute;
+  head: AddRoute<Routes, "HEAD">;
   
   /**
    * 添加OPTIONS方法的路由
@@ -388,7 +926,7 @@ export interface H3 {
    * 向服务器添加一个处理OPTIONS请求的路由。
    * 这就像是餐厅添加一个只提供菜品可用选项的菜单项。
    */
-  options: AddRoute;
+  options: AddRoute<Routes, "OPTIONS">;
   
   /**
    * 添加CONNECT方法的路由
@@ -396,7 +934,7 @@ export interface H3 {
    * 向服务器添加一个处理CONNECT请求的路由。
    * 这就像是餐厅添加一个建立特殊连接的菜单项。
    */
-  connect: AddRoute;
+  connect: AddRoute<Routes, "CONNECT">;
   
   /**
    * 添加TRACE方法的路由
@@ -404,5 +942,5 @@ export interface H3 {
    * 向服务器添加一个处理TRACE请求的路由。
    * 这就像是餐厅添加一个只用于跟踪订单过程的菜单项。
    */
-  trace: AddRoute;
+  trace: AddRoute<Routes, "TRACE">;
 }
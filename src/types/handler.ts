@@ -112,7 +112,18 @@ export type EventHandlerResolver = (
 export interface EventHandler<
   Request extends EventHandlerRequest = EventHandlerRequest,
   Response extends EventHandlerResponse = EventHandlerResponse,
-> extends Partial<Pick<H3, "handler" | "resolve" | "config" | "websocket">> {
+> extends Partial<
+    Pick<
+      H3,
+      | "handler"
+      | "resolve"
+      | "resolveURL"
+      | "allowedMethods"
+      | "routes"
+      | "config"
+      | "websocket"
+    >
+  > {
   /**
    * 处理函数本身
    * @param event HTTP事件对象，包含请求信息
@@ -155,6 +166,28 @@ export type ResponseMiddleware<
   response: { body?: Awaited<Response> },
 ) => void | Promise<void>;
 
+/**
+ * 洋葱式中间件
+ *
+ * 和请求中间件不同，洋葱式中间件会收到第二个参数`next`。
+ * 调用`next()`会执行后续的中间件和路由处理器，并返回它们的结果（可能是一个Response）。
+ * 这样中间件就可以在处理器执行之后继续运行代码，比如计时、改写响应或者在finally中做清理。
+ *
+ * 就像餐厅的领班：先把订单交给厨房(next)，等菜做好了再检查一遍摆盘，
+ * 最后才端给客人。
+ *
+ * 如果中间件返回`undefined`，会使用下游的结果；如果没有调用`next()`就返回了其他值，
+ * 后续的中间件和处理器都不会被执行。
+ */
+export type Middleware<
+  Request extends EventHandlerRequest = EventHandlerRequest,
+> = (
+  /** HTTP事件对象 */
+  event: H3Event<Request>,
+  /** 执行下游中间件和处理器，返回下游的结果 */
+  next: () => Promise<unknown>,
+) => unknown | Promise<unknown>;
+
 /**
  * 事件处理器对象
  * 
@@ -183,6 +216,12 @@ export type EventHandlerObject<
   onBeforeResponse?:
     | ResponseMiddleware<Request, Response>
     | ResponseMiddleware<Request, Response>[];
+
+  /**
+   * 洋葱式中间件 - 包裹在主处理器外层执行
+   * 在onRequest之后按顺序执行，每个中间件都可以通过next()等待主处理器的结果
+   */
+  middleware?: Middleware<Request>[];
   
   /** 
    * WebSocket钩子 - 用于处理WebSocket连接
@@ -17,8 +17,31 @@
  * H3Config: 服务器配置选项，就像是餐厅的营业规则
  * WebSocketOptions: WebSocket选项，就像是餐厅里特殊的通讯设备设置
  * H3Error: H3错误类型，就像是餐厅可能遇到的各种问题
+ * H3Route: 路由定义，就像是菜单上的一道菜
+ * H3RouteDetails: 注册路由时的额外信息，就像是菜品旁边的小注释
+ * H3RouteGroup / H3RouteGroupOptions: 路由分组及其选项，就像是餐厅里的包间
+ * H3RouteInfo: 路由表条目，就像是总菜单里的一行
+ * H3RouteMap / H3RouteTypes / RouteParams: 路由类型表，记录每个路由的请求和响应类型，
+ *   就像是给外卖平台的菜单数据
+ * ResponseSerializer: 响应序列化器，就像是特殊的打包师傅
+ * ProblemDetails: RFC 9457格式的错误详情，就像是行业通用的问题说明单
  */
-export type { H3, H3Config, WebSocketOptions, H3Error } from "./h3";
+export type {
+  H3,
+  H3Config,
+  WebSocketOptions,
+  H3Error,
+  H3Route,
+  H3RouteDetails,
+  H3RouteGroup,
+  H3RouteGroupOptions,
+  H3RouteInfo,
+  H3RouteMap,
+  H3RouteTypes,
+  RouteParams,
+  ResponseSerializer,
+  ProblemDetails,
+} from "./h3";
 
 /**
  * 事件类型
@@ -45,6 +68,7 @@ export type { H3Event } from "./event";
  * InferEventInput: 推断事件输入类型，自动猜测顾客想要什么
  * RequestMiddleware: 请求中间件，在厨师做菜前对原料进行预处理的帮手
  * ResponseMiddleware: 响应中间件，在菜品上桌前进行最后装饰的帮手
+ * Middleware: 洋葱式中间件，先把订单交给厨师，等菜做好后还能再检查一遍的领班
  */
 export type {
   EventHandler,
@@ -57,6 +81,7 @@ export type {
   InferEventInput,
   RequestMiddleware,
   ResponseMiddleware,
+  Middleware,
 } from "./handler";
 
 /**
@@ -135,11 +160,27 @@ export type {
  * 缓存相关类型
  * 
  * CacheConditions定义了何时使用缓存的条件。
+ * ETagOptions定义了自动生成ETag的中间件的选项，比如是否使用弱ETag。
  * 
  * 这就像是餐厅的预制菜规则：什么情况下可以使用提前做好的菜，
  * 什么情况下必须现做。合理使用缓存可以大大提高服务器性能和响应速度。
  */
-export type { CacheConditions } from "./utils/cache";
+export type { CacheConditions, ETagOptions } from "./utils/cache";
+
+/**
+ * 请求体相关类型
+ *
+ * ReadBodyOptions定义了读取请求体时的选项，比如最大允许的字节数。
+ * ReadMultipartOptions定义了读取multipart表单时的选项，比如文件大小和数量限制。
+ * MultipartPart是multipart表单中的一个部分（普通字段或文件）。
+ *
+ * 这就像是餐厅门口的行李规定：超过大小的包裹不能带进来。
+ */
+export type {
+  ReadBodyOptions,
+  ReadMultipartOptions,
+  MultipartPart,
+} from "./utils/body";
 
 /**
  * 会话相关类型
@@ -149,11 +190,27 @@ export type { CacheConditions } from "./utils/cache";
  * Session: 会话对象，就像是顾客的会员卡，记录了顾客的信息和偏好
  * SessionConfig: 会话配置，就像是会员系统的规则设置
  * SessionData: 会话数据，就像是会员卡上存储的具体信息
+ * SessionCookieChunksOptions: 会话Cookie分块的选项，就像是规定一页信最多写多少字、一封信最多几页
+ * SessionExpiryReason: 需要创建新会话的原因，就像是换新卡时说明是没带卡、卡过期了还是卡是假的
+ * SessionPassword: 带ID的会话密码，用于密码轮换，就像是换锁时新旧钥匙都贴上编号
+ * SessionStore: 服务端会话存储，就像是前台的会员档案柜，会员卡上只写编号
+ * MemorySessionStoreOptions: 内存会话存储的选项，比如档案柜最多能放多少份档案
+ * RegenerateSessionOptions: 重新生成会话ID的选项，比如换新卡时要不要保留原来的信息
  * 
  * 会话功能让服务器能够记住用户，即使在多次请求之间也能保持状态，
  * 就像餐厅认出了回头客并记得他们的偏好。
  */
-export type { Session, SessionConfig, SessionData } from "./utils/session";
+export type {
+  Session,
+  SessionConfig,
+  SessionCookieChunksOptions,
+  SessionData,
+  SessionExpiryReason,
+  SessionPassword,
+  SessionStore,
+  MemorySessionStoreOptions,
+  RegenerateSessionOptions,
+} from "./utils/session";
 
 /**
  * 代理相关类型
@@ -195,18 +252,37 @@ export type { H3CorsOptions } from "./utils/cors";
  */
 export type { RequestFingerprintOptions } from "./utils/fingerprint";
 
+/**
+ * 响应压缩相关类型
+ *
+ * CompressOptions: 压缩中间件的选项，包括可以使用的压缩方式、最小压缩大小和需要压缩的内容类型
+ * CompressEncoding: 支持的压缩方式（br、gzip、deflate）
+ *
+ * 就像寄快递前把衣服装进真空压缩袋，体积变小了，运费也就省了。
+ */
+export type { CompressEncoding, CompressOptions } from "./utils/compress";
+
 /**
  * 静态文件服务相关类型
  * 
  * 这些类型用于配置静态文件(如HTML、CSS、图片等)的服务。
  * 
  * ServeStaticOptions: 静态文件服务选项，就像是餐厅展示菜单和装饰画的规则
+ * ServeStaticDirOptions: 从目录提供静态文件的选项，就像是直接指定一个展示柜，由服务员自己去取
  * StaticAssetMeta: 静态资源元数据，就像是每个展示品的详细信息
+ * StaticDirectoryEntry: 目录列表中的一项，就像是展示柜里每一格的标签
+ * StaticSPAFallbackOptions: 单页应用回退选项，找不到的页面都交给同一个入口页面（如index.html）处理
  * 
  * 静态文件服务是网站的重要组成部分，它处理那些不需要动态生成的内容，
  * 就像餐厅中除了现做的菜品，还有提前准备好的面包、饮料等。
  */
-export type { ServeStaticOptions, StaticAssetMeta } from "./utils/static";
+export type {
+  ServeStaticOptions,
+  ServeStaticDirOptions,
+  StaticAssetMeta,
+  StaticDirectoryEntry,
+  StaticSPAFallbackOptions,
+} from "./utils/static";
 
 /**
  * 数据验证相关类型
@@ -215,8 +291,61 @@ export type { ServeStaticOptions, StaticAssetMeta } from "./utils/static";
  * 
  * ValidateFunction: 验证函数，就像是检查食材质量的程序
  * ValidateResult: 验证结果，就像是检查后的报告，说明食材是否合格
+ * Validator: 验证函数或者Standard Schema对象，两种质检方式都可以
+ * ValidationIssue: 验证失败时的问题描述（路径和信息），就像是质检报告里的每一条不合格项
+ * StandardSchemaV1: Standard Schema接口，Zod、Valibot、ArkType等验证库都实现了它，
+ *   就像是不同供应商都遵守的统一质检标准
  * 
  * 数据验证是保证应用安全和稳定的关键步骤，它确保所有输入数据
  * 符合预期的格式和规则，就像厨师在烹饪前会检查食材的新鲜度和质量。
  */
-export type { ValidateFunction, ValidateResult } from "./utils/validate";
+export type {
+  ValidateFunction,
+  ValidateResult,
+  Validator,
+  ValidationIssue,
+  StandardSchemaV1,
+  StandardSchemaV1Props,
+  StandardSchemaV1Result,
+  StandardSchemaV1Issue,
+} from "./utils/validate";
+
+/**
+ * OpenAPI相关类型
+ *
+ * 这些类型用于描述路由的接口文档，并生成OpenAPI 3.1文档。
+ *
+ * RouteOpenAPI: 路由的OpenAPI元数据，就像是菜单上每道菜的介绍
+ * OpenAPIResponse: 某个状态码的响应说明，就像是“端上来的是什么”
+ * OpenAPISchema / JSONSchema: 描述数据结构的Schema
+ * OpenAPIOptions: 生成文档的选项，就像是菜单的封面和排版
+ * OpenAPIDocument: 生成的OpenAPI文档
+ */
+export type {
+  RouteOpenAPI,
+  OpenAPIResponse,
+  OpenAPISchema,
+  JSONSchema,
+  OpenAPIOptions,
+  OpenAPIDocument,
+} from "./utils/openapi";
+
+/**
+ * 请求客户端相关类型
+ *
+ * 这些类型用于`createClient`创建的类型安全的请求客户端。
+ *
+ * H3Client: 请求客户端，就像是拿着菜单点菜的外卖平台
+ * ClientOptions / ClientRequestOptions: 客户端和单个请求的选项
+ * ClientFetch: 类似fetch的函数（如`app.fetch`）
+ * ClientMethod: 客户端支持的HTTP方法
+ * InferRoutes: 从H3应用的类型中取出路由类型表
+ */
+export type {
+  H3Client,
+  ClientOptions,
+  ClientRequestOptions,
+  ClientFetch,
+  ClientMethod,
+  InferRoutes,
+} from "./utils/client";
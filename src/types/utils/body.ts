@@ -0,0 +1,74 @@
+export interface ReadBodyOptions {
+  /**
+   * Maximum size of the request body in bytes.
+   *
+   * Requests with a larger `content-length` or a body that grows past the
+   * limit while streaming are rejected with `413 Payload Too Large`.
+   *
+   * Defaults to `maxBodySize` of the app config (no limit if not set).
+   */
+  maxBodySize?: number;
+}
+
+export interface ReadMultipartOptions extends ReadBodyOptions {
+  /**
+   * Maximum size of a single file part in bytes.
+   *
+   * Reading a larger file fails with `413 Payload Too Large`.
+   */
+  maxFileSize?: number;
+
+  /**
+   * Maximum number of file parts.
+   *
+   * An additional file part fails with `413 Payload Too Large`.
+   */
+  maxFiles?: number;
+
+  /**
+   * Allowed content types of file parts (e.g. `["image/png", "image/*"]`).
+   *
+   * Other file types fail with `415 Unsupported Media Type`.
+   */
+  allowedTypes?: string[];
+}
+
+export interface MultipartPart {
+  /**
+   * Field name from the `content-disposition` header.
+   */
+  name: string;
+
+  /**
+   * File name from the `content-disposition` header (only set for file parts).
+   */
+  filename?: string;
+
+  /**
+   * Content type of the part (`text/plain` if not specified).
+   */
+  type: string;
+
+  /**
+   * Raw headers of the part.
+   */
+  headers: Headers;
+
+  /**
+   * Body of the part.
+   *
+   * The stream must be consumed before moving on to the next part; otherwise
+   * the rest of it is discarded.
+   */
+  stream: ReadableStream<Uint8Array>;
+
+  /**
+   * Read the whole part as text.
+   */
+  text(): Promise<string>;
+
+  /**
+   * Read the whole part as bytes.
+   */
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
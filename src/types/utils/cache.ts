@@ -3,4 +3,37 @@ export interface CacheConditions {
   maxAge?: number;
   etag?: string;
   cacheControls?: string[];
+
+  /**
+   * Use `private` instead of `public` so that only the browser may cache the response.
+   *
+   * `s-maxage` is not added for private responses.
+   */
+  private?: boolean;
+
+  /**
+   * Add `no-cache` so that caches must revalidate before using a stored response.
+   */
+  noCache?: boolean;
+
+  /**
+   * Add `immutable` for responses that never change (e.g. hashed asset names).
+   */
+  immutable?: boolean;
+
+  /**
+   * Add `stale-while-revalidate` with the given number of seconds.
+   */
+  staleWhileRevalidate?: number;
+}
+
+export interface ETagOptions {
+  /**
+   * Send weak ETags (`W/"..."`) instead of strong ones.
+   *
+   * Weak ETags only promise semantically equivalent content, which is enough for `If-None-Match` revalidation.
+   *
+   * @default false
+   */
+  weak?: boolean;
 }
@@ -0,0 +1,99 @@
+import type { H3, H3RouteMap, H3RouteTypes } from "../h3";
+
+export type ClientMethod =
+  | "GET"
+  | "HEAD"
+  | "POST"
+  | "PUT"
+  | "PATCH"
+  | "DELETE"
+  | "OPTIONS";
+
+/**
+ * A fetch-like function (e.g. `globalThis.fetch` or `app.fetch`).
+ */
+export type ClientFetch = (
+  input: string,
+  init?: RequestInit,
+) => Response | Promise<Response>;
+
+export interface ClientOptions {
+  /**
+   * Fetch implementation used when the target is a base URL.
+   *
+   * @default globalThis.fetch
+   */
+  fetch?: ClientFetch;
+
+  /**
+   * Headers sent with every request.
+   */
+  headers?: HeadersInit;
+}
+
+export interface ClientRequestOptions<
+  Params = Record<string, string | number>,
+  Query = unknown,
+  Body = unknown,
+> extends Omit<RequestInit, "body" | "method"> {
+  /**
+   * Values for `:param` and `**` segments of the route.
+   */
+  params?: Params;
+
+  /**
+   * Query params appended to the URL.
+   */
+  query?: Query;
+
+  /**
+   * Request body. Plain objects and arrays are sent as JSON.
+   */
+  body?: Body;
+}
+
+/**
+ * Route map of an `H3` app.
+ */
+export type InferRoutes<App> =
+  App extends H3<any> ? NonNullable<App["~routes"]> : H3RouteMap;
+
+/**
+ * Typed client for an `H3` app, created with `createClient<typeof app>()`.
+ */
+export type H3Client<Routes extends H3RouteMap> = {
+  [Method in ClientMethod as Lowercase<Method>]: <
+    Path extends _ClientPaths<Routes, Method>,
+  >(
+    path: Path,
+    ...args: _ClientArgs<_ClientRoute<Routes, Path, Method>>
+  ) => Promise<_ClientRoute<Routes, Path, Method>["response"]>;
+};
+
+type _ClientPaths<Routes extends H3RouteMap, Method extends string> = {
+  [Path in keyof Routes & string]: Method extends keyof Routes[Path]
+    ? Path
+    : "" extends keyof Routes[Path]
+      ? Path
+      : never;
+}[keyof Routes & string];
+
+type _ClientRoute<
+  Routes extends H3RouteMap,
+  Path extends keyof Routes,
+  Method extends string,
+> = Method extends keyof Routes[Path] ? Routes[Path][Method] : Routes[Path][""];
+
+type _ClientArgs<Route extends H3RouteTypes> = [keyof Route["params"]] extends [
+  never,
+]
+  ? [options?: ClientRequestOptions<never, Route["query"], Route["body"]>]
+  : string extends keyof Route["params"]
+    ? [options?: ClientRequestOptions] // Untyped routes
+    : [
+        options: ClientRequestOptions<
+          Record<keyof Route["params"], string | number>,
+          Route["query"],
+          Route["body"]
+        > & { params: Record<keyof Route["params"], string | number> },
+      ];
@@ -0,0 +1,30 @@
+import type { H3Event } from "../event";
+
+export type CompressEncoding = "br" | "gzip" | "deflate";
+
+export interface CompressOptions {
+  /**
+   * Encodings the server may use, in order of preference.
+   *
+   * Encodings that the runtime's `CompressionStream` does not support (e.g. `br` on Node.js) are ignored.
+   *
+   * @default ["br", "gzip", "deflate"]
+   */
+  encodings?: CompressEncoding[];
+
+  /**
+   * Minimum body size in bytes to compress.
+   *
+   * Only applies when the size is known upfront (strings, buffers or a `content-length` header). Streams are always compressed.
+   *
+   * @default 1024
+   */
+  threshold?: number;
+
+  /**
+   * Decide whether a response with the given content type should be compressed.
+   *
+   * By default text, JSON, XML and JavaScript types are compressed.
+   */
+  filter?: (type: string, event: H3Event) => boolean;
+}
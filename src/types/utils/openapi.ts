@@ -0,0 +1,96 @@
+import type { StandardSchemaV1 } from "./validate";
+
+/**
+ * A JSON Schema object.
+ */
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * A schema used to describe route input or output.
+ *
+ * Either a Standard Schema (converted with `toJSONSchema`) or a plain JSON Schema object.
+ */
+export type OpenAPISchema = StandardSchemaV1 | JSONSchema;
+
+export interface OpenAPIResponse {
+  /**
+   * Description of the response.
+   */
+  description?: string;
+
+  /**
+   * Schema of the response body.
+   */
+  schema?: OpenAPISchema;
+
+  /**
+   * Content type of the response body.
+   *
+   * @default "application/json"
+   */
+  contentType?: string;
+}
+
+/**
+ * OpenAPI metadata of a route.
+ */
+export interface RouteOpenAPI {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+
+  /**
+   * @default route name
+   */
+  operationId?: string;
+  deprecated?: boolean;
+
+  /**
+   * Object schema of route params (used for `:param` and `**` segments).
+   */
+  params?: OpenAPISchema;
+
+  /**
+   * Object schema of query params.
+   */
+  query?: OpenAPISchema;
+
+  /**
+   * Schema of the JSON request body.
+   */
+  body?: OpenAPISchema;
+
+  /**
+   * Responses by status code.
+   */
+  responses?: Record<number | string, OpenAPIResponse>;
+}
+
+export interface OpenAPIOptions {
+  /**
+   * Document info.
+   *
+   * @default { title: "H3 API", version: "1.0.0" }
+   */
+  info?: { title?: string; version?: string; description?: string };
+
+  servers?: { url: string; description?: string }[];
+
+  /**
+   * Convert a Standard Schema into JSON Schema.
+   *
+   * By default, schemas implementing Standard JSON Schema (`~standard.jsonSchema`) or
+   * having a `toJSONSchema()` / `toJsonSchema()` method are converted.
+   */
+  toJSONSchema?: (
+    schema: StandardSchemaV1,
+    io: "input" | "output",
+  ) => JSONSchema | undefined;
+}
+
+export interface OpenAPIDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, Record<string, unknown>>;
+}
@@ -11,6 +11,7 @@ export interface ProxyOptions {
   fetch?: typeof fetch;
   sendStream?: boolean;
   streamRequest?: boolean;
+  maxBodySize?: number;
   cookieDomainRewrite?: string | Record<string, string>;
   cookiePathRewrite?: string | Record<string, string>;
   onResponse?: (event: H3Event, response: Response) => void;
@@ -6,26 +6,136 @@ type SessionDataT = Record<string, any>;
 
 export type SessionData<T extends SessionDataT = SessionDataT> = Partial<T>;
 
+/**
+ * Why a new session had to be created:
+ *
+ * - `missing`: the request had no session token
+ * - `expired`: the session exceeded `maxAge` or `idleTimeout`, or was removed from the store
+ * - `tampered`: the token could not be unsealed (modified, malformed or sealed with an unknown password)
+ */
+export type SessionExpiryReason = "missing" | "expired" | "tampered";
+
 export interface Session<T extends SessionDataT = SessionDataT> {
   id: string;
   createdAt: number;
+  /** Time of the last request that refreshed the session. Only tracked with `rolling` or `idleTimeout`. */
+  lastAccessedAt?: number;
   data: SessionData<T>;
+  /** Why the previous session could not be used. Only set when a new session was created in this request. */
+  expiryReason?: SessionExpiryReason;
   [kGetSession]?: Promise<Session<T>>;
 }
 
 export interface SessionConfig {
-  /** Private key used to encrypt session tokens */
-  password: string;
+  /**
+   * Private key used to encrypt session tokens.
+   *
+   * To rotate passwords, pass a list of `{ id, secret }` (or an `{ [id]: secret }` map) instead.
+   * The last entry seals new tokens, and every entry can unseal tokens sealed with it.
+   * Sessions unsealed with an older password are re-sealed with the newest one.
+   * Tokens sealed with a single string password are unsealed by the entry with id `default`.
+   */
+  password: string | SessionPassword[] | Record<string, string>;
   /** Session expiration time in seconds */
   maxAge?: number;
+  /**
+   * Measure `maxAge` from the last access instead of the session creation, so active sessions stay alive.
+   *
+   * The cookie expiry is refreshed at most once per `touchInterval`.
+   */
+  rolling?: boolean;
+  /** Expire sessions that have not been accessed for this many seconds */
+  idleTimeout?: number;
+  /**
+   * Minimum number of seconds between refreshes of the last access time and cookie expiry, with `rolling` or `idleTimeout`.
+   *
+   * @default 60, or half of `idleTimeout` (or of `maxAge` with `rolling`) when shorter
+   */
+  touchInterval?: number;
   /** default is h3 */
   name?: string;
   /** Default is secure, httpOnly, / */
   cookie?: false | CookieSerializeOptions;
+  /**
+   * Split sealed sessions longer than the per-cookie size limit into `{name}.0`, `{name}.1`, ... cookies.
+   *
+   * Set to `false` to always write a single cookie.
+   */
+  cookieChunks?: false | SessionCookieChunksOptions;
   /** Default is x-h3-session / x-{name}-session */
   sessionHeader?: false | string;
   seal?: SealOptions;
   crypto?: Crypto;
   /** Default is Crypto.randomUUID */
   generateId?: () => string;
+  /**
+   * Keep sessions on the server instead of sealing them into the cookie.
+   *
+   * When set, only the sealed session id travels in the cookie (or `sessionHeader`), and deleting a session from the store invalidates it.
+   *
+   * @see createMemorySessionStore
+   */
+  store?: SessionStore;
+}
+
+export interface SessionCookieChunksOptions {
+  /**
+   * Maximum length of each cookie value. Browsers limit cookies to about 4096 bytes, including the name and attributes.
+   *
+   * @default 3800
+   */
+  chunkSize?: number;
+  /**
+   * Maximum total length of the sealed session. Servers and proxies reject requests with too large headers.
+   *
+   * @default 12000
+   */
+  maxSize?: number;
+  /**
+   * What to do when the sealed session is longer than `maxSize`: log a warning and write it anyway, or throw a 500 error.
+   *
+   * @default "warn"
+   */
+  onMaxSize?: "warn" | "error";
+}
+
+export interface SessionPassword {
+  /** Password id, stored in sealed tokens. Only letters, digits and `_` are allowed. */
+  id: string;
+  /** Secret used to encrypt and sign tokens, at least 32 characters. */
+  secret: string;
+}
+
+/**
+ * Server-side storage for sessions, keyed by session id.
+ *
+ * Methods can be sync or async, so any key-value storage (Redis, a database, ...) can be used.
+ */
+export interface SessionStore {
+  /** Get a stored session. Return `undefined` when it does not exist or has expired. */
+  get(id: string): Session | undefined | Promise<Session | undefined>;
+  /** Store a session. `maxAge` (in seconds) is the session `maxAge` config, if any. */
+  set(id: string, session: Session, maxAge?: number): void | Promise<void>;
+  /** Delete a stored session. */
+  delete(id: string): void | Promise<void>;
+  /** Extend the lifetime of a stored session without rewriting its data. */
+  touch(id: string, maxAge?: number): void | Promise<void>;
+}
+
+export interface MemorySessionStoreOptions {
+  /**
+   * Maximum number of stored sessions. The least recently used sessions are evicted first.
+   *
+   * @default 1000
+   */
+  max?: number;
+}
+
+export interface RegenerateSessionOptions {
+  /**
+   * Copy the session data to the new session. Set to `false` to start with empty data.
+   *
+   * @default true
+   */
+  keepData?: boolean;
 }
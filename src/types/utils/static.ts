@@ -5,6 +5,39 @@ export interface StaticAssetMeta {
   path?: string;
   size?: number;
   encoding?: string;
+  /**
+   * Set to `true` when the id resolves to a directory.
+   *
+   * Directories are skipped when searching for an asset, and can be listed with the `directoryListing` option.
+   */
+  isDirectory?: boolean;
+}
+
+export interface StaticDirectoryEntry {
+  name: string;
+  isDirectory?: boolean;
+  size?: number;
+  mtime?: number | string | Date;
+}
+
+export interface StaticSPAFallbackOptions {
+  /**
+   * Asset id to serve for unknown paths
+   *
+   * @default "/index.html"
+   */
+  path?: string;
+
+  /**
+   * Request paths that should not fall back (e.g. API routes)
+   *
+   * Strings are matched as patterns where `*` matches a path segment and `**` matches any number of segments.
+   *
+   * Paths with a file extension in the last segment (e.g. `/app.js`) never fall back, so missing assets still respond with `404`.
+   *
+   * @example ["/api/**"]
+   */
+  exclude?: Array<string | RegExp>;
 }
 
 export interface ServeStaticOptions {
@@ -17,9 +50,12 @@ export interface ServeStaticOptions {
 
   /**
    * This function should resolve asset content
+   *
+   * When `ranges` is enabled, it is called with the requested byte range (`end` is inclusive) for `Range` requests and should only resolve those bytes.
    */
   getContents: (
     id: string,
+    range?: { start: number; end: number },
   ) => BodyInit | null | undefined | Promise<BodyInit | null | undefined>;
 
   /**
@@ -31,6 +67,15 @@ export interface ServeStaticOptions {
    */
   encodings?: Record<string, string>;
 
+  /**
+   * Pass the requested byte range to `getContents` for `Range` requests, so it only resolves those bytes
+   *
+   * When disabled, the full content is resolved and sliced.
+   *
+   * @default false
+   */
+  ranges?: boolean;
+
   /**
    * Default index file to serve when the path is a directory
    *
@@ -42,4 +87,70 @@ export interface ServeStaticOptions {
    * When set to true, the function will not throw 404 error when the asset meta is not found or meta validation failed
    */
   fallthrough?: boolean;
+
+  /**
+   * Serve an asset (`/index.html` by default) for `GET` and `HEAD` requests that do not match any asset, so a single-page app can handle client-side routes
+   *
+   * Pass a string to use another asset id.
+   */
+  spaFallback?: boolean | string | StaticSPAFallbackOptions;
+
+  /**
+   * Render a listing (HTML, or JSON when preferred by the `accept` header) when `getMeta` reports a directory and no index file matches
+   */
+  directoryListing?: {
+    getEntries: (
+      id: string,
+    ) => StaticDirectoryEntry[] | Promise<StaticDirectoryEntry[]>;
+  };
+}
+
+export interface ServeStaticDirOptions
+  extends Pick<
+    ServeStaticOptions,
+    "encodings" | "indexNames" | "fallthrough" | "spaFallback"
+  > {
+  /**
+   * Directory to serve files from
+   *
+   * Requests can never resolve to a file outside of this directory, including through symlinks.
+   */
+  root: string;
+
+  /**
+   * How to handle paths with a segment starting with a dot (e.g. `/.env` or `/.git/config`)
+   *
+   * - `"ignore"`: behave as if the file does not exist
+   * - `"deny"`: respond with `403 Forbidden`
+   * - `"allow"`: serve them like any other file
+   *
+   * @default "ignore"
+   */
+  dotfiles?: "allow" | "deny" | "ignore";
+
+  /**
+   * When set, served files get a `cache-control: public, max-age=<maxAge>` header (in seconds)
+   */
+  maxAge?: number;
+
+  /**
+   * Request paths matching this pattern (e.g. hashed build assets) get a `cache-control: public, max-age=31536000, immutable` header
+   *
+   * @example /^\/_assets\//
+   */
+  immutablePattern?: RegExp;
+
+  /**
+   * When set to true, directories without an index file are listed
+   *
+   * Entries hidden by the `dotfiles` option are not listed.
+   */
+  directoryListing?: boolean;
+
+  /**
+   * File (relative to `root`) to serve with a `404` status when no file matches the request path
+   *
+   * @example "/404.html"
+   */
+  fallback?: string;
 }
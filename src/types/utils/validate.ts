@@ -3,3 +3,43 @@ export type ValidateResult<T> = T | true | false | void;
 export type ValidateFunction<T> = (
   data: unknown,
 ) => ValidateResult<T> | Promise<ValidateResult<T>>;
+
+/**
+ * A validation function or a Standard Schema object (Zod, Valibot, ArkType, ...).
+ */
+export type Validator<T> = ValidateFunction<T> | StandardSchemaV1<unknown, T>;
+
+/**
+ * Normalized validation issue used as `H3Error.data.issues`.
+ */
+export interface ValidationIssue {
+  path: PropertyKey[];
+  message: string;
+}
+
+/**
+ * The Standard Schema interface (https://standardschema.dev).
+ *
+ * Implemented by validation libraries such as Zod, Valibot and ArkType.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1Props<Input, Output>;
+}
+
+export interface StandardSchemaV1Props<Input = unknown, Output = Input> {
+  readonly version: 1;
+  readonly vendor: string;
+  readonly validate: (
+    value: unknown,
+  ) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+  readonly types?: { readonly input: Input; readonly output: Output };
+}
+
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaV1Issue> };
+
+export interface StandardSchemaV1Issue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
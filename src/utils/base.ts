@@ -7,7 +7,7 @@
 
 // 导入必要的类型和函数
 import type { H3, EventHandler } from "../types";  // 导入H3应用和事件处理器类型
-import { withoutBase, withoutTrailingSlash } from "./internal/path";  // 导入路径处理函数
+import { joinURL, withoutBase, withoutTrailingSlash } from "./internal/path";  // 导入路径处理函数
 
 /**
  * 创建一个新的事件处理器，在调用原始处理器之前先移除事件的基础URL
@@ -66,6 +66,31 @@ export function withBase(base: string, input: EventHandler | H3): EventHandler {
       }
     : undefined;
 
+  // 复制列出允许的HTTP方法的函数，同样要移除基础路径
+  // 就像门卫替访客问房间管理员：“用户房间”接待哪些访客
+  _handler.allowedMethods = _originalHandler.allowedMethods
+    ? (path) => _originalHandler.allowedMethods!(withoutBase(path, base))
+    : undefined;
+
+  // 复制命名路由的反向URL生成函数，并把基础路径加回去
+  // 就像房间管理员只知道“用户房间”，门卫要告诉访客完整地址是“API大楼的用户房间”
+  _handler.resolveURL = _originalHandler.resolveURL
+    ? (name, params, query) => {
+        const url = _originalHandler.resolveURL!(name, params, query);
+        return url === undefined ? undefined : joinURL(base, url);
+      }
+    : undefined;
+
+  // 复制列出路由表的函数，给每个路由加上基础路径
+  // 就像门卫手里的楼层指引，要把“API大楼”几个字加在每个房间名前面
+  _handler.routes = _originalHandler.routes
+    ? () =>
+        _originalHandler.routes!().map((route) => ({
+          ...route,
+          route: joinURL(base, route.route),
+        }))
+    : undefined;
+
   // 返回新的处理器
   return _handler;
 }
@@ -7,10 +7,23 @@
  */
 
 // 导入我们需要的类型和函数
-import type { InferEventInput, ValidateFunction, H3Event } from "../types";
+import type {
+  InferEventInput,
+  MultipartPart,
+  ReadBodyOptions,
+  ReadMultipartOptions,
+  Validator,
+  H3Event,
+} from "../types";
 import { createError } from "../error";
 import { validateData } from "./internal/validate";
-import { parseURLEncodedBody } from "./internal/body";
+import {
+  getMaxBodySize,
+  parseURLEncodedBody,
+  readBodyBytes,
+} from "./internal/body";
+import { parseMultipart, readMultipartFields } from "./internal/multipart";
+import { textDecoder } from "./internal/encoding";
 
 /**
  * 读取请求体并尝试解析成JSON对象或URL编码的表单数据
@@ -18,9 +31,11 @@ import { parseURLEncodedBody } from "./internal/body";
  * 想象一下：当你在网站上填写表单并点击提交按钮时，你输入的所有信息都会被打包成一个"包裹"发送到服务器。
  * 这个函数就像是拆开这个包裹，把里面的内容取出来给我们使用。
  * 
- * 它可以处理两种常见的数据格式：
+ * 它可以处理三种常见的数据格式：
  * 1. JSON格式 - 这是一种像字典一样的数据格式，比如：{"名字":"小明", "年龄":10}
  * 2. URL编码格式 - 这是网页表单默认的格式，比如：名字=小明&年龄=10
+ * 3. multipart表单格式 - 上传文件时使用的格式。这里只会返回普通的文本字段，文件会被跳过，
+ *    需要读取文件时请使用`readMultipartFormData`
  * 
  * @example
  * // 在网站代码中这样使用：
@@ -30,8 +45,17 @@ import { parseURLEncodedBody } from "./internal/body";
  *   console.log("收到的名字是：" + body.名字); // 输出：收到的名字是：小明
  * });
  *
+ * @example
+ * // 限制请求体最多1MB，超过时返回413 Payload Too Large
+ * app.post("/upload", async (event) => {
+ *   const body = await readBody(event, { maxBodySize: 1024 * 1024 });
+ * });
+ *
  * @param event H3事件对象，包含了HTTP请求的所有信息
- * @param encoding 字符编码，默认是'utf-8'（支持中文等各国文字）
+ * @param options 读取选项。`maxBodySize`是允许的最大字节数，默认使用应用配置中的`maxBodySize`。
+ *                请求头中的`content-length`会先被检查，读取过程中也会一直计数，超过限制时立刻停止读取。
+ *
+ * @throws 请求体超过大小限制时抛出413错误
  *
  * @return {*} 返回解析后的数据，可能是对象、数组、字符串、数字、布尔值或null
  */
@@ -42,18 +66,29 @@ export async function readBody<
   T, // 用户期望的返回数据类型
   _Event extends H3Event = H3Event, // 事件类型，默认是H3Event
   _T = InferEventInput<"body", _Event, T>, // 根据事件和用户期望推断出的实际返回类型
->(event: _Event): Promise<undefined | _T> { // 函数返回一个Promise，结果可能是undefined或_T类型的数据
-  // 从请求中读取原始文本内容
-  const text = await event.request.text();
+>(event: _Event, options?: ReadBodyOptions): Promise<undefined | _T> { // 函数返回一个Promise，结果可能是undefined或_T类型的数据
+  const maxBodySize = getMaxBodySize(event, options?.maxBodySize);
+
+  // 获取内容类型，这告诉我们数据是什么格式
+  // 就像快递包裹上的标签，告诉我们里面装的是什么
+  // 媒体类型不区分大小写，统一转成小写再比较
+  const contentType = (
+    event.request.headers.get("content-type") || ""
+  ).toLowerCase();
+
+  // 如果是multipart表单，只读取其中的文本字段
+  if (contentType.startsWith("multipart/form-data")) {
+    return (await readMultipartFields(event, { maxBodySize })) as _T;
+  }
+
+  // 从请求中读取原始内容（会检查大小限制），再转换成文本
+  const bytes = await readBodyBytes(event, maxBodySize);
+  const text = bytes ? textDecoder.decode(bytes) : "";
   // 如果内容为空，就返回undefined
   if (!text) {
     return undefined;
   }
 
-  // 获取内容类型，这告诉我们数据是什么格式
-  // 就像快递包裹上的标签，告诉我们里面装的是什么
-  const contentType = event.request.headers.get("content-type") || "";
-  
   // 如果是URL编码的表单数据（网页表单默认格式）
   if (contentType.startsWith("application/x-www-form-urlencoded")) {
     // 使用专门的函数解析这种格式
@@ -111,10 +146,19 @@ export async function readBody<
  *   // 如果验证通过，body就是一个符合规则的对象
  * });
  *
+ * @example
+ * // 直接传入实现了Standard Schema的对象（Zod、Valibot、ArkType等）
+ * app.use("/", async (event) => {
+ *   // body的类型会根据schema自动推断为 { name: string }
+ *   const body = await readValidatedBody(event, z.object({ name: z.string() }));
+ * });
+ *
  * @param event H3事件对象，包含了HTTP请求的所有信息
- * @param validate 用于验证数据的函数。这个函数会接收解析后的请求体作为参数。
+ * @param validate 用于验证数据的函数或者Standard Schema对象。函数会接收解析后的请求体作为参数，
  *                如果返回结果不是false，那么解析后的数据将被返回。
- * @throws 如果验证函数返回`false`或抛出错误，将抛出一个验证错误。
+ * @param options 读取选项，和readBody相同（比如`maxBodySize`）
+ * @throws 如果验证函数返回`false`或抛出错误，或者schema报告了问题，将抛出一个验证错误，
+ *         错误的`data`是`{ issues: [{ path, message }] }`格式。
  * @return {*} 返回验证通过的数据，可能是对象、数组、字符串、数字、布尔值或null。
  * @see {readBody} 这个函数内部使用了readBody函数来获取数据
  */
@@ -125,12 +169,61 @@ export async function readValidatedBody<
   T, // 用户期望的返回数据类型
   Event extends H3Event = H3Event, // 事件类型，默认是H3Event
   _T = InferEventInput<"body", Event, T>, // 根据事件和用户期望推断出的实际返回类型
->(event: Event, validate: ValidateFunction<_T>): Promise<_T> { // 函数返回一个Promise，结果是_T类型的数据
+>(
+  event: Event,
+  validate: Validator<_T>,
+  options?: ReadBodyOptions,
+): Promise<_T> { // 函数返回一个Promise，结果是_T类型的数据
   // 首先使用readBody函数读取请求体
-  const _body = await readBody(event);
+  const _body = await readBody(event, options);
   
   // 然后使用提供的验证函数验证数据
   // validateData会检查数据是否符合要求，如果不符合会抛出错误
   // 这就像老师检查你的作业，如果有错误会告诉你哪里错了
   return validateData(_body, validate);
 }
+
+/**
+ * 以流的方式逐个读取multipart/form-data表单中的部分（普通字段和文件）
+ *
+ * 想象一下：顾客一次寄来了一个大箱子，里面装着好几个小包裹（表单字段和文件）。
+ * 这个函数不会先把整个箱子搬进仓库，而是打开箱子一个一个地把小包裹递给你，
+ * 你可以直接把大文件送到储藏室（比如写入磁盘或上传到云存储），不需要全部放在手里（内存）。
+ *
+ * 每个部分都有`name`、`filename`（只有文件才有）、`type`和`stream`。
+ * 请在处理下一个部分之前读完当前部分的`stream`，没有读完的内容会被丢弃。
+ *
+ * @example
+ * app.post("/upload", async (event) => {
+ *   for await (const part of readMultipartFormData(event, {
+ *     maxFileSize: 10 * 1024 * 1024,
+ *     maxFiles: 3,
+ *     allowedTypes: ["image/*"],
+ *   })) {
+ *     if (part.filename) {
+ *       // 把文件直接写入存储，不需要全部放进内存
+ *       await part.stream.pipeTo(createStorageStream(part.filename));
+ *     } else {
+ *       console.log(part.name, await part.text());
+ *     }
+ *   }
+ * });
+ *
+ * @param event H3事件对象，包含了HTTP请求的所有信息
+ * @param options 读取选项：
+ *                - `maxFileSize`：单个文件的最大字节数，超过时抛出413错误
+ *                - `maxFiles`：最多允许的文件数量，超过时抛出413错误
+ *                - `allowedTypes`：允许的文件类型（比如`image/*`），其他类型抛出415错误
+ *                - `maxBodySize`：整个请求体的最大字节数，默认使用应用配置中的`maxBodySize`
+ * @throws 请求体不是multipart/form-data时抛出415错误，格式错误时抛出400错误
+ * @return 可以用`for await`遍历的表单部分
+ */
+export function readMultipartFormData(
+  event: H3Event,
+  options: ReadMultipartOptions = {},
+): AsyncIterableIterator<MultipartPart> {
+  return parseMultipart(event, {
+    ...options,
+    maxBodySize: getMaxBodySize(event, options.maxBodySize),
+  });
+}
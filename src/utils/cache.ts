@@ -15,90 +15,127 @@
  * 这个文件中的函数帮助我们处理这些缓存相关的头部信息，使我们的应用程序可以更高效地运行。
  */
 
-import type { CacheConditions, H3Event } from "../types";
+import type {
+  CacheConditions,
+  ETagOptions,
+  H3Event,
+  Middleware,
+} from "../types";
+import crypto from "uncrypto";
+import { createError } from "../error";
+import { prepareResponseBody } from "../response";
+import { evaluateConditionalRequest } from "./internal/cache";
+import { base64Encode, textEncoder } from "./internal/encoding";
 
 /**
- * 检查请求的缓存头部（`If-Modified-Since`）并添加缓存头部（Last-Modified, Cache-Control）
+ * 检查请求的条件头部并添加缓存头部（Last-Modified, ETag, Cache-Control）
  * 
  * 想象一下，这个函数就像是一个图书管理员。当你来借书时，你可能会说：
- * “我上次看到这本书是在2023年1月1日，如果书没有更新，我就不需要再借了。”
- * 管理员会检查这本书的最后修改日期，如果没有变化，就会告诉你可以继续使用你已经有的版本。
+ * “我手上这本书的编号是X，如果书没有更新，我就不需要再借了。”
+ * 管理员会检查这本书的编号和最后修改日期，如果没有变化，就会告诉你可以继续使用你已经有的版本。
  * 
- * 注意：默认情况下会添加`public`缓存控制，这意味着这个资源可以被所有人缓存
+ * 条件头部按照RFC 9110的规则检查：
+ * - `If-None-Match`（支持`W/`弱ETag、`*`和逗号分隔的列表）和`If-Modified-Since`：没有变化时返回304
+ * - `If-Match`和`If-Unmodified-Since`：资源已经变化时抛出412 Precondition Failed错误
+ * 
+ * 注意：默认情况下会添加`public`缓存控制，这意味着这个资源可以被所有人缓存。
+ * 设置`private: true`（或在`cacheControls`中传入`private`/`no-store`）时不会添加。
+ * 
+ * @example
+ * app.get("/article", (event) => {
+ *   if (handleCacheHeaders(event, { etag: '"v1"', maxAge: 60, staleWhileRevalidate: 300 })) {
+ *     return null;
+ *   }
+ *   return "文章内容";
+ * });
  * 
  * @param event H3事件对象，包含了HTTP请求和响应的信息
- * @param opts 缓存条件，包括最大寿命、修改时间、ETag等
- * @returns 当缓存头部匹配时返回`true`。当返回`true`时，不应再发送任何响应内容
+ * @param opts 缓存条件，包括最大寿命、修改时间、ETag和缓存控制指令等
+ * @throws 当`If-Match`或`If-Unmodified-Since`条件不满足时抛出412错误
+ * @returns 当缓存头部匹配时返回`true`（状态码为304）。当返回`true`时，不应再发送任何响应内容
  */
 export function handleCacheHeaders(
   event: H3Event,      // H3事件对象
   opts: CacheConditions,  // 缓存条件
 ): boolean {
-  // 初始化缓存控制指令数组，默认包含"public"
-  // 这就像是准备一个标签，上面写着这本书可以被所有人借阅
-  const cacheControls = ["public", ...(opts.cacheControls || [])];
-  
-  // 初始化缓存匹配标志为false
-  // 这就像是初始假设你需要一本新书
-  let cacheMatched = false;
-
-  // 如果指定了最大寿命，添加相应的缓存控制指令
-  // 这就像是告诉你：“这本书可以借阅X天，之X天后需要重新借阅”
+  const userControls = opts.cacheControls || [];
+
+  // 决定谁可以缓存：所有人（public）还是只有浏览器（private）
+  // 这就像是决定这本书可以放在公共书架上，还是只能借给你一个人
+  const isPrivate =
+    opts.private ||
+    userControls.includes("private") ||
+    userControls.includes("no-store");
+  const cacheControls = [
+    ...(userControls.includes("public") || isPrivate ? [] : ["public"]),
+    ...(opts.private && !userControls.includes("private") ? ["private"] : []),
+    ...userControls,
+  ];
+
+  // 每次使用前都需要向服务器确认
+  // 这就像是每次看书前都要问一下管理员有没有新版本
+  if (opts.noCache) {
+    cacheControls.push("no-cache");
+  }
+
+  // 如果指定了最大寿命，添加相应的缓存控制指令（私有缓存不需要s-maxage）
+  // 这就像是告诉你：“这本书可以借阅X天，X天后需要重新借阅”
   if (opts.maxAge !== undefined) {
-    cacheControls.push(`max-age=${+opts.maxAge}`, `s-maxage=${+opts.maxAge}`);
+    cacheControls.push(`max-age=${+opts.maxAge}`);
+    if (!isPrivate) {
+      cacheControls.push(`s-maxage=${+opts.maxAge}`);
+    }
   }
 
-  // 如果指定了修改时间，处理Last-Modified和If-Modified-Since头部
-  // 这就像是检查书的最后修订日期，并与你上次看到的版本进行比较
+  // 过期后还可以先用旧版本，同时在后台更新
+  // 这就像是书到期了可以先接着看，管理员会帮你去取新版本
+  if (opts.staleWhileRevalidate !== undefined) {
+    cacheControls.push(`stale-while-revalidate=${+opts.staleWhileRevalidate}`);
+  }
+
+  // 内容永远不会变化（比如文件名带有哈希值的资源）
+  // 这就像是已经出版的书，内容不会再改了
+  if (opts.immutable) {
+    cacheControls.push("immutable");
+  }
+
+  // 设置响应的Last-Modified头部
+  // 这就像是图书管理员告诉你这本书的实际最后修订日期
   if (opts.modifiedTime) {
-    // 创建一个日期对象，表示资源的最后修改时间
-    // 这就像是查看书的出版日期
-    const modifiedTime = new Date(opts.modifiedTime);
-    
-    // 获取请求中的If-Modified-Since头部
-    // 这就像是你告诉图书管理员你上次看到的书的版本日期
-    const ifModifiedSince = event.request.headers.get("if-modified-since");
-    
-    // 设置响应的Last-Modified头部
-    // 这就像是图书管理员告诉你这本书的实际最后修订日期
-    event.response.headers.set("last-modified", modifiedTime.toUTCString());
-    
-    // 如果If-Modified-Since头部存在，并且资源自那时起没有修改
-    // 这就像是：如果你上次看到的版本与当前版本相同或更新
-    if (ifModifiedSince && new Date(ifModifiedSince) >= opts.modifiedTime) {
-      // 标记缓存匹配
-      // 这就像是图书管理员告诉你：“你已经有最新版本了，不需要重新借阅”
-      cacheMatched = true;
-    }
+    event.response.headers.set(
+      "last-modified",
+      new Date(opts.modifiedTime).toUTCString(),
+    );
   }
 
-  // 如果指定了ETag，处理ETag和If-None-Match头部
-  // ETag就像是书的唯一标识符，每当内容变化时就会改变
+  // 设置响应的ETag头部
+  // ETag就像是书的唯一编号，每当内容变化时就会改变
   if (opts.etag) {
-    // 设置响应的ETag头部
-    // 这就像是图书管理员告诉你这本书的唯一编号
     event.response.headers.set("etag", opts.etag);
-    
-    // 获取请求中的If-None-Match头部
-    // 这就像是你告诉图书管理员你手上的书的编号
-    const ifNonMatch = event.request.headers.get("if-none-match");
-    
-    // 如果If-None-Match头部与ETag匹配
-    // 这就像是：如果你手上的书的编号与当前书的编号相同
-    if (ifNonMatch === opts.etag) {
-      // 标记缓存匹配
-      // 这就像是图书管理员告诉你：“你已经有这本书了，不需要重新借阅”
-      cacheMatched = true;
-    }
   }
 
   // 设置响应的Cache-Control头部
   // 这就像是图书管理员给你的书贴上借阅规则的标签
   event.response.headers.set("cache-control", cacheControls.join(", "));
 
+  // 检查请求的条件头部
+  // 这就像是图书管理员对照你手上的书和书架上的书
+  const status = evaluateConditionalRequest(event, {
+    etag: opts.etag,
+    modifiedTime: opts.modifiedTime,
+  });
+
+  // 你手上的版本已经不是最新的了，不能继续操作
+  if (status === 412) {
+    throw createError({
+      statusCode: 412,
+      statusMessage: "Precondition Failed",
+    });
+  }
+
   // 如果缓存匹配，设置响应状态为304 Not Modified
   // 这就像是图书管理员告诉你：“你已经有最新版本了，可以继续使用”
-  if (cacheMatched) {
+  if (status === 304) {
     event.response.status = 304;  // 304表示“未修改”
     return true;  // 返回true表示已处理完毕，不需要发送响应体
   }
@@ -107,3 +144,82 @@ export function handleCacheHeaders(
   // 这就像是图书管理员告诉你：“你需要借阅新版本的书”
   return false;
 }
+
+/**
+ * 创建一个自动生成ETag的中间件
+ *
+ * 对`GET`和`HEAD`请求的字符串、二进制和JSON响应体计算哈希值（WebCrypto SHA-1）作为ETag，
+ * 当请求的`If-None-Match`与之匹配时直接返回304，不再发送响应体。
+ * 适合经常被轮询、内容又很少变化的JSON接口。
+ *
+ * 这就像是给每一份报纸印上版本号：读者拿着手上那份的版本号来问，
+ * 如果没有新版本，报亭老板只要说一声“还是那份”，不用再给一份一模一样的报纸。
+ *
+ * 以下情况不会生成ETag：
+ * - 响应已经设置了`etag`头部
+ * - 状态码不是2xx
+ * - 响应体是流、Blob等无法提前读取的内容
+ *
+ * 和`compress()`一起使用时，先注册`compress()`，这样ETag是根据未压缩的内容计算的
+ * （压缩后强ETag会被改成弱ETag）。
+ *
+ * @example
+ * const app = createH3();
+ * app.use(etag());
+ *
+ * @example
+ * // 只用于部分路由，并使用弱ETag
+ * app.use("/api/**", etag({ weak: true }));
+ *
+ * @param options ETag选项
+ * @returns 洋葱式中间件
+ */
+export function etag(options: ETagOptions = {}): Middleware {
+  return async (event, next) => {
+    const val = await next();
+
+    // 未匹配的路由（kNotFound）、kHandled和错误交给后面的流程处理
+    if (typeof val === "symbol" || val instanceof Error) {
+      return val;
+    }
+    if (event.request.method !== "GET" && event.request.method !== "HEAD") {
+      return val;
+    }
+
+    const body = prepareResponseBody(val, event, event.app?.config || {});
+    const status = event.response.status;
+    if (
+      (status && (status < 200 || status >= 300)) ||
+      event.response.headers.has("etag") ||
+      (typeof body !== "string" && !(body instanceof Uint8Array))
+    ) {
+      return body;
+    }
+
+    // 计算响应体的哈希值，相同的内容总是得到相同的ETag
+    const digest = await crypto.subtle.digest(
+      "SHA-1",
+      typeof body === "string" ? textEncoder.encode(body) : body,
+    );
+    const hash = base64Encode(new Uint8Array(digest));
+    const tag = options.weak ? `W/"${hash}"` : `"${hash}"`;
+    event.response.headers.set("etag", tag);
+
+    const conditionalStatus = evaluateConditionalRequest(event, { etag: tag });
+    if (conditionalStatus === 412) {
+      throw createError({
+        statusCode: 412,
+        statusMessage: "Precondition Failed",
+      });
+    }
+    if (conditionalStatus === 304) {
+      event.response.status = 304;
+      event.response.statusText = "Not Modified";
+      // 304响应没有内容，原来内容的类型和长度不能留下
+      event.response.headers.delete("content-type");
+      event.response.headers.delete("content-length");
+      return "";
+    }
+    return body;
+  };
+}
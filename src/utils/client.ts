@@ -0,0 +1,148 @@
+/**
+ * 类型安全的请求客户端模块
+ *
+ * 这个文件提供了`createClient`，它可以根据H3应用的类型生成一个带类型提示的请求客户端。
+ *
+ * 想象一下：
+ * 服务器端注册路由时，H3会把每个路由的参数、请求体和返回值的类型记在一本“类型菜单”上。
+ * 前端或测试代码拿着这本菜单点菜（发请求），点错了菜名或少写了桌号（路由参数），
+ * 在编译时就会被发现，而不是等到运行时才出错。
+ */
+
+import type {
+  ClientFetch,
+  ClientMethod,
+  ClientOptions,
+  ClientRequestOptions,
+  H3,
+  H3Client,
+  H3RouteMap,
+  InferRoutes,
+} from "../types";
+import { createError } from "../error";
+import { fillRoutePath, joinURL, withQuery } from "./internal/path";
+
+// 客户端支持的HTTP方法
+const clientMethods: ClientMethod[] = [
+  "GET",
+  "HEAD",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "OPTIONS",
+];
+
+/**
+ * 创建一个类型安全的请求客户端
+ *
+ * 客户端的方法（`get`、`post`等）会根据应用注册的路由推断出可用的路径、
+ * 路由参数、查询参数、请求体和响应数据的类型。
+ *
+ * 目标可以是一个基础URL（使用`fetch`发送请求），也可以直接是`app.fetch`（不经过网络，适合测试）。
+ *
+ * 响应是JSON时会自动解析，响应体为空时结果是`undefined`；响应状态码不是2xx时会抛出一个H3Error，`data`是解析后的响应体。
+ *
+ * @example
+ * const app = createH3().get("/users/:id", (event) => ({ id: event.context.params!.id }));
+ *
+ * const client = createClient<typeof app>("https://api.example.com");
+ * const user = await client.get("/users/:id", { params: { id: 1 } }); // { id: string }
+ *
+ * @example
+ * // 在测试中直接调用应用，不需要启动服务器
+ * const client = createClient<typeof app>(app.fetch);
+ *
+ * @param target 基础URL，或者一个类似fetch的函数（如`app.fetch`）
+ * @param options 客户端选项
+ * @returns 请求客户端
+ */
+export function createClient<App extends H3<any> = H3<H3RouteMap>>(
+  target: string | ClientFetch,
+  options: ClientOptions = {},
+): H3Client<InferRoutes<App>> {
+  // 如果目标是URL，使用fetch发送请求；否则直接调用传入的函数
+  const _fetch: ClientFetch =
+    typeof target === "string"
+      ? (path, init) =>
+          (options.fetch || globalThis.fetch)(joinURL(target, path), init)
+      : target;
+
+  const request = async (
+    method: ClientMethod,
+    route: string,
+    opts: ClientRequestOptions<any, any, any> = {},
+  ) => {
+    const { params, query, body, headers, ...init } = opts;
+
+    // 把路由参数填进路径，再加上查询参数
+    const path = withQuery(fillRoutePath(route, params), query);
+
+    const _headers = new Headers(options.headers);
+    for (const [key, value] of new Headers(headers)) {
+      _headers.set(key, value);
+    }
+
+    // 普通对象和数组作为JSON发送，其他类型（字符串、FormData、Blob等）原样发送
+    let _body = body as BodyInit | undefined;
+    if (_isJSONBody(body)) {
+      _body = JSON.stringify(body);
+      if (!_headers.has("content-type")) {
+        _headers.set("content-type", "application/json");
+      }
+    }
+
+    const res = await _fetch(path, {
+      ...init,
+      method,
+      headers: _headers,
+      body: _body,
+    });
+
+    // 解析响应体：没有内容时返回undefined，JSON自动解析，其他情况返回文本
+    const text = method === "HEAD" ? "" : await res.text();
+    let data: unknown;
+    if (text) {
+      data = text;
+      if ((res.headers.get("content-type") || "").includes("json")) {
+        try {
+          data = JSON.parse(text);
+        } catch (error) {
+          // 错误响应的内容不一定是有效的JSON（如代理返回的错误页面），这时保留文本
+          if (res.ok) {
+            throw error;
+          }
+        }
+      }
+    }
+
+    if (!res.ok) {
+      throw createError({
+        statusCode: res.status,
+        statusMessage: res.statusText,
+        data,
+      });
+    }
+    return data;
+  };
+
+  const client = {} as Record<string, unknown>;
+  for (const method of clientMethods) {
+    client[method.toLowerCase()] = (
+      route: string,
+      opts?: ClientRequestOptions<any, any, any>,
+    ) => request(method, route, opts);
+  }
+  return client as H3Client<InferRoutes<App>>;
+}
+
+function _isJSONBody(body: unknown): boolean {
+  if (body === undefined || body === null) {
+    return false;
+  }
+  if (Array.isArray(body)) {
+    return true;
+  }
+  const proto = Object.getPrototypeOf(body);
+  return typeof body === "object" && (proto === Object.prototype || !proto);
+}
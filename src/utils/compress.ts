@@ -0,0 +1,168 @@
+/**
+ * compress.ts - 响应压缩工具
+ *
+ * 文本、JSON这类响应里有大量重复的内容，压缩之后通常只剩原来的几分之一，传输起来更快。
+ * 浏览器会通过`Accept-Encoding`请求头告诉服务器它能解压哪些格式（如`br`、`gzip`、`deflate`），
+ * 服务器压缩后用`Content-Encoding`响应头告诉浏览器用的是哪一种。
+ *
+ * 就像寄快递：衣服装进真空压缩袋再寄，体积小了，运费也省了；
+ * 但一张纸或者本来就压得很实的东西（图片、视频、压缩包）就没必要再压一遍了。
+ *
+ * 这里使用各个运行时都支持的`CompressionStream`进行压缩，不依赖Node.js的`zlib`。
+ */
+
+import type { CompressEncoding, CompressOptions, Middleware } from "../types";
+import { prepareResponseBody } from "../response";
+import { textEncoder } from "./internal/encoding";
+import { appendVary, getAcceptedEncodings } from "./internal/negotiate";
+
+// 值得压缩的内容类型：文本、JSON、XML和JavaScript（如`application/ld+json`、`image/svg+xml`）
+const COMPRESSIBLE_TYPE_RE =
+  /^text\/|^application\/(?:javascript|x-javascript|ecmascript|x-ndjson|wasm)$|[/+](?:json|xml)$/;
+
+// 各个压缩方式在当前运行时是否可用
+const _supported: Partial<Record<CompressEncoding, boolean>> = {};
+
+/**
+ * 创建一个压缩响应的中间件
+ *
+ * 根据`Accept-Encoding`请求头选择`br`（运行时支持时）、`gzip`或`deflate`压缩响应体，
+ * 设置`content-encoding`响应头，给`vary`响应头加上`accept-encoding`，并去掉`content-length`（压缩后长度会变）。
+ * 强ETag会被改成弱ETag，因为压缩后的字节和原来的不同。
+ *
+ * 以下情况不会压缩：
+ * - 响应已经设置了`content-encoding`（比如`serveStatic`返回的预压缩文件）
+ * - 内容类型不适合压缩（比如图片、视频、压缩包）
+ * - 响应体小于`threshold`（默认1024字节）
+ * - HEAD请求、没有响应体的状态码（204、304等）、错误和未匹配的路由
+ *
+ * `iterable()`和`createEventStream()`返回的流也可以压缩，但要注意`CompressionStream`会攒够一定数据再输出，
+ * 每条消息不一定会立刻发送给客户端。对实时性要求高的事件流可以用`filter`选项跳过`text/event-stream`。
+ *
+ * @example
+ * const app = createH3();
+ * app.use(compress());
+ *
+ * @example
+ * // 只使用gzip，并且跳过事件流
+ * app.use(
+ *   compress({
+ *     encodings: ["gzip"],
+ *     filter: (type) => type.startsWith("text/") && type !== "text/event-stream",
+ *   }),
+ * );
+ *
+ * @param options 压缩选项
+ * @returns 洋葱式中间件
+ */
+export function compress(options: CompressOptions = {}): Middleware {
+  const encodings = options.encodings || ["br", "gzip", "deflate"];
+  const threshold = options.threshold ?? 1024;
+  const filter = options.filter || isCompressibleType;
+
+  return async (event, next) => {
+    const val = await next();
+
+    // 未匹配的路由（kNotFound）、kHandled和错误交给后面的流程处理
+    if (typeof val === "symbol" || val instanceof Error) {
+      return val;
+    }
+
+    const body = prepareResponseBody(val, event, event.app?.config || {});
+    const status = event.response.status;
+    const headers = event.response.headers;
+    if (
+      !body ||
+      event.method === "HEAD" ||
+      status === 204 ||
+      status === 206 ||
+      status === 304 ||
+      headers.has("content-encoding")
+    ) {
+      return body;
+    }
+
+    // 字符串等响应体的内容类型由Response推断（如`text/plain;charset=UTF-8`）
+    const response = new Response(body);
+    const type =
+      headers.get("content-type") || response.headers.get("content-type") || "";
+    if (!filter(type.split(";")[0].trim().toLowerCase(), event)) {
+      return body;
+    }
+
+    const size = getBodySize(body, headers);
+    if (size !== undefined && size < threshold) {
+      return body;
+    }
+
+    appendVary(headers, "accept-encoding");
+    const [encoding] = getAcceptedEncodings(
+      event.request.headers.get("accept-encoding"),
+      encodings.filter((encoding) => isSupportedEncoding(encoding)),
+    );
+    if (!encoding || !response.body) {
+      return body;
+    }
+
+    if (type && !headers.has("content-type")) {
+      headers.set("content-type", type);
+    }
+    headers.set("content-encoding", encoding);
+    headers.delete("content-length");
+
+    // 压缩后的字节和原来的不一样了，强ETag要改成弱ETag
+    const etag = headers.get("etag");
+    if (etag && !etag.startsWith("W/")) {
+      headers.set("etag", `W/${etag}`);
+    }
+
+    return response.body
+      .pipeThrough(
+        // `iterable()`的数据块可能是字符串，CompressionStream只接受二进制数据
+        new TransformStream<Uint8Array | string, Uint8Array>({
+          transform(chunk, controller) {
+            controller.enqueue(
+              typeof chunk === "string" ? textEncoder.encode(chunk) : chunk,
+            );
+          },
+        }),
+      )
+      .pipeThrough(new CompressionStream(encoding as CompressionFormat));
+  };
+}
+
+/**
+ * 检查内容类型是否值得压缩（默认的`filter`）
+ */
+function isCompressibleType(type: string): boolean {
+  return COMPRESSIBLE_TYPE_RE.test(type);
+}
+
+/**
+ * 检查当前运行时的`CompressionStream`是否支持某种压缩方式（结果会被缓存）
+ */
+function isSupportedEncoding(encoding: CompressEncoding): boolean {
+  if (_supported[encoding] === undefined) {
+    try {
+      new CompressionStream(encoding as CompressionFormat);
+      _supported[encoding] = true;
+    } catch {
+      _supported[encoding] = false;
+    }
+  }
+  return _supported[encoding];
+}
+
+/**
+ * 获取响应体的大小（字节），流等无法提前知道大小的返回undefined
+ */
+function getBodySize(body: BodyInit, headers: Headers): number | undefined {
+  if (typeof body === "string") {
+    return textEncoder.encode(body).byteLength;
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  const contentLength = headers.get("content-length");
+  return contentLength ? Number(contentLength) : undefined;
+}
@@ -8,6 +8,8 @@
  * 这些信息会以特殊的格式发送到服务器。这个文件就是帮助服务器理解这些信息的工具。
  */
 
+import type { H3Event } from "../../types";
+import { createError } from "../../error";
 // 导入一个特殊的空对象，它比普通的{}更安全，没有原型链上的属性
 import { EmptyObject } from "./obj";
 // 导入一个检查对象是否有某个属性的函数
@@ -62,3 +64,95 @@ export function parseURLEncodedBody(body: string) {
   // 就像把翻译好的信息交给需要的人
   return parsedForm as unknown;
 }
+
+/**
+ * 获取请求体大小限制
+ *
+ * 优先使用调用时传入的限制，否则使用应用配置中的`maxBodySize`。
+ *
+ * @param event - H3事件对象
+ * @param maxBodySize - 调用时传入的限制（字节）
+ * @returns 限制的字节数，没有限制时返回undefined
+ */
+export function getMaxBodySize(
+  event: H3Event,
+  maxBodySize?: number,
+): number | undefined {
+  return maxBodySize ?? event.app?.config.maxBodySize;
+}
+
+/**
+ * 读取请求体的原始字节，并检查大小限制
+ *
+ * 小朋友们可以这样理解：
+ * 这就像门卫检查包裹。先看包裹上贴的重量标签（content-length），太重就直接拒收；
+ * 标签可能是假的，所以打开包裹一件一件往外拿的时候也要一直数着，超过了就马上停下来拒收，
+ * 而不是等全部拿出来才发现屋子已经堆满了。
+ *
+ * @param event - H3事件对象
+ * @param maxBodySize - 最大允许的字节数，undefined表示不限制
+ * @returns 请求体的字节，没有请求体时返回undefined
+ * @throws 超过限制时抛出413 Payload Too Large错误
+ */
+export async function readBodyBytes(
+  event: H3Event,
+  maxBodySize?: number,
+): Promise<Uint8Array | undefined> {
+  // 没有限制时直接读取全部内容
+  if (maxBodySize === undefined) {
+    const buffer = await event.request.arrayBuffer();
+    return buffer.byteLength > 0 ? new Uint8Array(buffer) : undefined;
+  }
+
+  // 先检查请求头中声明的长度
+  const contentLength = Number(event.request.headers.get("content-length"));
+  if (contentLength > maxBodySize) {
+    throw createPayloadTooLargeError(maxBodySize);
+  }
+
+  const stream = event.request.body;
+  if (!stream) {
+    return undefined;
+  }
+
+  // 一边读取一边计数，超过限制时立刻停止
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBodySize) {
+      // 只释放读取器而不取消流：有些服务器适配器在流被取消后仍会继续写入数据，导致报错
+      reader.releaseLock();
+      throw createPayloadTooLargeError(maxBodySize);
+    }
+    chunks.push(value);
+  }
+
+  if (size === 0) {
+    return undefined;
+  }
+  if (chunks.length === 1) {
+    return chunks[0];
+  }
+  // 把所有小块拼成一整块
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+function createPayloadTooLargeError(maxBodySize: number) {
+  return createError({
+    statusCode: 413,
+    statusMessage: "Payload Too Large",
+    message: `Request body exceeds the limit of ${maxBodySize} bytes`,
+  });
+}
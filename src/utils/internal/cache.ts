@@ -0,0 +1,129 @@
+/**
+ * 条件请求（RFC 9110 第13节）
+ *
+ * 浏览器缓存了一个资源之后，再次请求时会带上“条件”：
+ *
+ * - `If-None-Match` / `If-Modified-Since`：“如果没变就别给我了” → 没变时返回 304 Not Modified
+ * - `If-Match` / `If-Unmodified-Since`：“只有还是我看到的那个版本时才继续” → 变了时返回 412 Precondition Failed
+ *
+ * 这就像去图书馆还书续借：你拿着书的版本号（ETag）或者借书日期（Last-Modified）问管理员，
+ * 管理员对照一下书架上的版本，再决定怎么处理。
+ */
+
+import type { H3Event } from "../../types";
+
+export interface ConditionalValidators {
+  /** 当前资源的 ETag（如`"abc"`或`W/"abc"`） */
+  etag?: string;
+  /** 当前资源的最后修改时间 */
+  modifiedTime?: string | number | Date;
+}
+
+/**
+ * 按照 RFC 9110 第13.2.2节的顺序检查请求的前置条件
+ *
+ * 1. `If-Match`（强比较），没有时检查`If-Unmodified-Since`，不满足返回 412
+ * 2. `If-None-Match`（弱比较），没有时检查`If-Modified-Since`（只对 GET/HEAD），
+ *    匹配时 GET/HEAD 返回 304，其他方法返回 412
+ *
+ * @param event - H3事件对象
+ * @param validators - 当前资源的 ETag 和最后修改时间
+ * @returns 应该返回的状态码，条件都满足时返回 undefined
+ */
+export function evaluateConditionalRequest(
+  event: H3Event,
+  validators: ConditionalValidators,
+): 304 | 412 | undefined {
+  const headers = event.request.headers;
+  const isGetOrHead =
+    event.request.method === "GET" || event.request.method === "HEAD";
+  const { etag } = validators;
+  const lastModified = getLastModified(validators);
+
+  const ifMatch = headers.get("if-match");
+  if (ifMatch) {
+    if (!matchETag(ifMatch, etag, false)) {
+      return 412;
+    }
+  } else {
+    const ifUnmodifiedSince = parseHTTPDate(headers.get("if-unmodified-since"));
+    if (lastModified > ifUnmodifiedSince) {
+      return 412;
+    }
+  }
+
+  const ifNoneMatch = headers.get("if-none-match");
+  if (ifNoneMatch) {
+    if (matchETag(ifNoneMatch, etag, true)) {
+      return isGetOrHead ? 304 : 412;
+    }
+  } else if (isGetOrHead) {
+    const ifModifiedSince = parseHTTPDate(headers.get("if-modified-since"));
+    if (lastModified <= ifModifiedSince) {
+      return 304;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 检查`If-Match`/`If-None-Match`中的 ETag 列表是否包含当前的 ETag
+ *
+ * `*`匹配任何已存在的资源。弱比较忽略`W/`前缀，强比较要求两边都不是弱 ETag。
+ */
+function matchETag(header: string, etag: string | undefined, weak: boolean) {
+  if (header.trim() === "*") {
+    return true;
+  }
+  if (!etag) {
+    return false;
+  }
+  // 带引号的 ETag 中可以有逗号，所以不能直接按逗号分割
+  const tags: string[] = header.match(/(?:W\/)?"[^"]*"|[^\s,]+/g) || [];
+  if (weak) {
+    const opaque = stripWeak(etag);
+    return tags.some((tag) => stripWeak(tag) === opaque);
+  }
+  return !etag.startsWith("W/") && tags.includes(etag);
+}
+
+function stripWeak(etag: string): string {
+  return etag.startsWith("W/") ? etag.slice(2) : etag;
+}
+
+// 无效或缺少的日期返回 NaN，和任何数字比较都是 false，也就是忽略这个条件
+function parseHTTPDate(value: string | null): number {
+  return value ? Date.parse(value) : Number.NaN;
+}
+
+/**
+ * 检查`If-Range`请求头，决定是否可以只返回请求的范围
+ *
+ * `If-Range`的值是 ETag 或者日期：资源没有变化时返回请求的范围，否则返回完整内容，
+ * 避免客户端把新旧两个版本的片段拼在一起。ETag 使用强比较，日期必须和最后修改时间完全相同。
+ *
+ * @param event - H3事件对象
+ * @param validators - 当前资源的 ETag 和最后修改时间
+ * @returns 可以返回范围时返回 true（没有`If-Range`请求头时也是 true）
+ */
+export function evaluateIfRange(
+  event: H3Event,
+  validators: ConditionalValidators,
+): boolean {
+  const ifRange = event.request.headers.get("if-range")?.trim();
+  if (!ifRange) {
+    return true;
+  }
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    return matchETag(ifRange, validators.etag, false);
+  }
+  return parseHTTPDate(ifRange) === getLastModified(validators);
+}
+
+// HTTP 日期只精确到秒，没有最后修改时间时返回 NaN
+function getLastModified({ modifiedTime }: ConditionalValidators): number {
+  return modifiedTime === undefined
+    ? Number.NaN
+    : Math.floor(new Date(modifiedTime).getTime() / 1000) * 1000;
+}
@@ -0,0 +1,106 @@
+/**
+ * 目录列表
+ *
+ * 请求的路径是一个目录、又没有索引文件（如`index.html`）时，可以列出目录里的文件，
+ * 就像打开一个文件夹看到里面的文件列表。
+ *
+ * 浏览器访问时显示为 HTML 页面，`Accept`请求头偏好 JSON 时（如`fetch`、`curl -H "accept: application/json"`）返回 JSON。
+ */
+
+import type { H3Event, StaticDirectoryEntry } from "../../types";
+import { escapeHTML } from "./error-page";
+import {
+  appendVary,
+  matchMediaType,
+  parseAcceptHeader,
+  sortByAccept,
+} from "./negotiate";
+
+const STYLE = `body{margin:0;font:15px/1.5 system-ui,sans-serif;color:#222}main{max-width:960px;margin:auto;padding:48px 24px}h1{margin:0 0 16px;font-size:24px;word-break:break-all}table{width:100%;border-collapse:collapse}td{padding:4px 8px;border-bottom:1px solid #eee}td+td{text-align:right;color:#888;white-space:nowrap}a{color:#06c;text-decoration:none}`;
+
+/**
+ * 渲染目录列表，同时设置`content-type`响应头
+ *
+ * 目录排在文件前面，同类按名字排序。
+ *
+ * @param event - H3事件对象
+ * @param id - 目录的文件ID（如`/docs`）
+ * @param entries - 目录里的文件和子目录
+ */
+export function renderDirectoryListing(
+  event: H3Event,
+  id: string,
+  entries: StaticDirectoryEntry[],
+): string {
+  const sorted = [...entries].sort(
+    (a, b) =>
+      Number(!!b.isDirectory) - Number(!!a.isDirectory) ||
+      a.name.localeCompare(b.name),
+  );
+
+  if (prefersJSON(event)) {
+    event.response.headers.set(
+      "content-type",
+      "application/json; charset=utf-8",
+    );
+    return JSON.stringify({
+      path: id,
+      entries: sorted.map((entry) => ({
+        name: entry.name,
+        type: entry.isDirectory ? "directory" : "file",
+        size: entry.size,
+        mtime:
+          entry.mtime === undefined
+            ? undefined
+            : new Date(entry.mtime).toISOString(),
+      })),
+    });
+  }
+
+  // 链接使用绝对路径，这样请求的路径有没有末尾的斜杠都能正确跳转
+  const base = event.url.pathname.endsWith("/")
+    ? event.url.pathname
+    : `${event.url.pathname}/`;
+  let rows =
+    id === "/"
+      ? ""
+      : `<tr><td><a href="${escapeHTML(base)}../">../</a></td><td></td></tr>`;
+  for (const entry of sorted) {
+    const name = entry.isDirectory ? `${entry.name}/` : entry.name;
+    const href =
+      base + encodeURIComponent(entry.name) + (entry.isDirectory ? "/" : "");
+    const size =
+      entry.isDirectory || entry.size === undefined
+        ? ""
+        : formatSize(entry.size);
+    rows += `<tr><td><a href="${escapeHTML(href)}">${escapeHTML(name)}</a></td><td>${size}</td></tr>`;
+  }
+
+  const title = `Index of ${id === "/" ? "/" : `${id}/`}`;
+  event.response.headers.set("content-type", "text/html; charset=utf-8");
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${escapeHTML(title)}</title><style>${STYLE}</style></head><body><main><h1>${escapeHTML(title)}</h1><table>${rows}</table></main></body></html>`;
+}
+
+// 没有 Accept 请求头或者偏好 HTML 时显示 HTML 页面
+function prefersJSON(event: H3Event): boolean {
+  const accept = event.request.headers.get("accept");
+  appendVary(event.response.headers, "accept");
+  return (
+    !!accept &&
+    sortByAccept(
+      parseAcceptHeader(accept),
+      ["text/html", "application/json"],
+      matchMediaType,
+    )[0] === "application/json"
+  );
+}
+
+function formatSize(size: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let i = 0;
+  while (size >= 1024 && i < units.length - 1) {
+    size /= 1024;
+    i++;
+  }
+  return `${i === 0 ? size : size.toFixed(1)} ${units[i]}`;
+}
@@ -0,0 +1,208 @@
+/**
+ * HTML 错误页面
+ *
+ * 浏览器直接打开出错的页面时，一串 JSON 对人来说不太友好，所以这里会渲染一个 HTML 页面：
+ *
+ * - 生产环境：只显示状态码和状态消息的简洁页面，不会泄露任何内部信息
+ * - 调试模式：显示错误消息、请求信息、请求头、`event.context`、错误原因链和带代码片段的调用栈
+ *
+ * 调用栈使用运行时给出的位置，开启 source map（如`node --enable-source-maps`）时就是源代码的位置。
+ * 代码片段只在可以同步读取文件的运行时（Node.js、Deno、Bun 的`process.getBuiltinModule`）中显示。
+ */
+
+import type { H3Error, H3Event } from "../../types";
+
+// 调用栈中显示代码片段的最大帧数
+const MAX_CODE_FRAMES = 3;
+
+// 代码片段中出错行前后显示的行数
+const CODE_FRAME_LINES = 2;
+
+// 错误原因链的最大深度
+const MAX_CAUSES = 5;
+
+// 请求头中不显示的敏感信息
+const SENSITIVE_HEADERS = new Set([
+  "authorization",
+  "cookie",
+  "proxy-authorization",
+]);
+
+const STYLE = `body{margin:0;font:15px/1.5 system-ui,sans-serif;color:#222;background:#fafafa}main{max-width:960px;margin:auto;padding:48px 24px;word-break:break-word}h1{margin:0;font-size:28px}h2{margin:32px 0 8px;font-size:14px;text-transform:uppercase;color:#888}.status{margin:0;color:#d22;font-weight:600}pre,code,table{font:13px/1.5 ui-monospace,monospace}pre{margin:4px 0;padding:12px;overflow:auto;background:#eee}mark{display:block;background:#fdd}td{padding:4px 8px;vertical-align:top}footer{padding:24px;text-align:center;color:#aaa}`;
+
+interface StackFrame {
+  fn?: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * 渲染 HTML 错误页面
+ *
+ * @param error - H3错误对象
+ * @param event - H3事件对象
+ * @param debug - 是否显示调试信息
+ */
+export function renderErrorPage(
+  error: H3Error,
+  event: H3Event,
+  debug?: boolean,
+): string {
+  const title = `${error.statusCode} ${error.statusMessage || ""}`.trim();
+  let body = `<p class="status">${escapeHTML(title)}</p>`;
+  if (!debug) {
+    return renderHTML(title, body);
+  }
+
+  const request = event.request;
+  body += `<h1>${escapeHTML(error.message || error.statusMessage || "Error")}</h1><p>${escapeHTML(`${request.method} ${request.url}`)}</p>`;
+
+  if (error.stack) {
+    body += `<h2>Stack</h2>${renderStack(error.stack)}`;
+  }
+
+  // 原因链：createError 会把原始错误放在 cause 中，和当前错误相同的调用栈不重复显示
+  const seen = new Set<unknown>([error]);
+  let cause = error.cause;
+  let causes = "";
+  for (let i = 0; i < MAX_CAUSES && cause instanceof Error; i++) {
+    if (seen.has(cause)) {
+      break;
+    }
+    seen.add(cause);
+    if (cause.stack !== error.stack) {
+      causes += `<h3>${escapeHTML(`${cause.name}: ${cause.message}`)}</h3>${cause.stack ? renderStack(cause.stack) : ""}`;
+    }
+    cause = (cause as { cause?: unknown }).cause;
+  }
+  if (causes) {
+    body += `<h2>Cause</h2>${causes}`;
+  }
+
+  if (error.data !== undefined) {
+    body += `<h2>Data</h2><pre>${escapeHTML(stringify(error.data))}</pre>`;
+  }
+
+  body += `<h2>Context</h2><pre>${escapeHTML(stringify(event.context))}</pre>`;
+
+  let headers = "";
+  for (const [name, value] of request.headers) {
+    headers += `<tr><td>${escapeHTML(name)}</td><td>${escapeHTML(SENSITIVE_HEADERS.has(name) ? "[redacted]" : value)}</td></tr>`;
+  }
+  body += `<h2>Headers</h2><table>${headers}</table>`;
+
+  return renderHTML(title, body);
+}
+
+function renderHTML(title: string, body: string): string {
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${escapeHTML(title)}</title><style>${STYLE}</style></head><body><main>${body}</main><footer>h3</footer></body></html>`;
+}
+
+/**
+ * 渲染调用栈，前几个应用代码中的帧会附带代码片段
+ */
+function renderStack(stack: string): string {
+  const frames = parseStack(stack);
+  if (frames.length === 0) {
+    return `<pre>${escapeHTML(stack)}</pre>`;
+  }
+  let html = "";
+  let codeFrames = 0;
+  for (const frame of frames) {
+    const location = `${frame.file}:${frame.line}:${frame.column}`;
+    html += `<p><code>${escapeHTML(frame.fn ? `${frame.fn} (${location})` : location)}</code></p>`;
+    const code =
+      codeFrames < MAX_CODE_FRAMES ? readCodeFrame(frame) : undefined;
+    if (code) {
+      codeFrames++;
+      html += `<pre>${code}</pre>`;
+    }
+  }
+  return html;
+}
+
+// 解析 V8 格式的调用栈：`at fn (file:line:column)` 或 `at file:line:column`
+function parseStack(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const line of stack.split("\n")) {
+    const match = line.match(/^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/);
+    if (match) {
+      frames.push({
+        fn: match[1],
+        file: match[2],
+        line: Number(match[3]),
+        column: Number(match[4]),
+      });
+    }
+  }
+  return frames;
+}
+
+/**
+ * 读取出错位置前后几行代码，无法读取（依赖、运行时内部模块、不支持同步读取文件的运行时）时返回 undefined
+ */
+function readCodeFrame(frame: StackFrame): string | undefined {
+  let path = frame.file;
+  if (path.includes("/node_modules/") || path.startsWith("node:")) {
+    return undefined;
+  }
+  try {
+    if (path.startsWith("file://")) {
+      path = decodeURIComponent(new URL(path).pathname);
+    }
+    const fs = globalThis.process?.getBuiltinModule?.("node:fs");
+    if (!fs || !path.startsWith("/")) {
+      return undefined;
+    }
+    const lines = fs.readFileSync(path, "utf8").split("\n");
+    const start = Math.max(frame.line - 1 - CODE_FRAME_LINES, 0);
+    const end = Math.min(frame.line + CODE_FRAME_LINES, lines.length);
+    let code = "";
+    for (let i = start; i < end; i++) {
+      const text = escapeHTML(`${String(i + 1).padStart(4)} | ${lines[i]}`);
+      code += i === frame.line - 1 ? `<mark>${text}</mark>` : `${text}\n`;
+    }
+    return code;
+  } catch {
+    return undefined;
+  }
+}
+
+// 转换成便于阅读的 JSON，函数显示为名字，循环引用显示为 [Circular]
+function stringify(value: unknown): string {
+  // 当前值的祖先（从根对象到父对象），只有引用了自己的祖先才是循环引用，
+  // 同一个对象在不同位置出现多次时会正常显示
+  const ancestors: unknown[] = [];
+  try {
+    return JSON.stringify(
+      value,
+      function (this: unknown, _key, val) {
+        if (typeof val === "function") {
+          return `[Function ${val.name || "anonymous"}]`;
+        }
+        if (typeof val === "bigint") {
+          return val.toString();
+        }
+        if (val && typeof val === "object") {
+          // replacer 的 this 是父对象，回到父对象那一层
+          while (ancestors.length > 0 && ancestors.at(-1) !== this) {
+            ancestors.pop();
+          }
+          if (ancestors.includes(val)) {
+            return "[Circular]";
+          }
+          ancestors.push(val);
+        }
+        return val;
+      },
+      2,
+    );
+  } catch {
+    return String(value);
+  }
+}
+
+export function escapeHTML(str: string): string {
+  return str.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
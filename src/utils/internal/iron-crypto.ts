@@ -10,6 +10,9 @@
  * - `seal`: 将对象 "封印" 成一个安全的字符串。
  * - `unseal`: 将 "封印" 的字符串 "解封" 回原始对象。
  *
+ * 封印后的字符串格式（用`*`分隔的8个部分）:
+ * `Fe26.2*密码ID*加密盐值*IV*密文*过期时间*HMAC盐值*HMAC`
+ *
  * 实现借鉴了以下项目:
  * - [iron-webcrypto](https://github.com/brc-dd/iron-webcrypto): 使用 Web Crypto API 实现 Iron 协议。
  * - [hapijs/iron](https://github.com/hapijs/iron): Node.js 环境下 Iron 协议的原始实现。
@@ -20,13 +23,18 @@
 // 导入 uncrypto 库，它提供了跨平台的 Web Crypto API
 // 在 Node.js 18 及更早版本，会使用 Node.js 内置的 crypto 模块
 import crypto from "uncrypto";
-import { textDecoder, textEncoder, base64Decode } from "./encoding";
+import {
+  textDecoder,
+  textEncoder,
+  base64Decode,
+  base64Encode,
+} from "./encoding";
 
 /**
  * @description 默认的加密和完整性校验设置。
  * 这些是 `seal` 和 `unseal` 函数在未提供特定选项时的默认值。
  */
-export const defaults: Readonly<SealOptions> = /* @__PURE__ */ Object.freeze({
+export const defaults: SealOptions = /* @__PURE__ */ Object.freeze({
   // 默认 TTL (Time To Live) 为 0，表示永不过期。
   ttl: 0,
   // 允许的时间戳偏差（秒），用于验证 'unseal' 时的过期时间戳，防止因时钟不同步导致验证失败。
@@ -37,10 +45,8 @@ export const defaults: Readonly<SealOptions> = /* @__PURE__ */ Object.freeze({
   encryption: /* @__PURE__ */ Object.freeze({
     saltBits: 256, // 盐值位数，用于 PBKDF2 密钥派生
     algorithm: "aes-256-cbc", // 加密算法 (AES-256-CBC)
-    iterations: 1, // PBKDF2 迭代次数 (注意：官方 iron 库迭代次数也是 1，虽然通常建议更高次数，但为了兼容性保持一致)
+    iterations: 1, // PBKDF2 迭代次数 (官方 iron 库迭代次数也是 1，为了兼容性保持一致)
     minPasswordlength: 32, // 最小密码长度要求
-    keyBits: 256, // 密钥位数
-    ivBits: 128, // AES-CBC/CTR 使用 128 位 IV (必需)
   }),
   // 完整性校验 (HMAC) 相关默认设置
   integrity: /* @__PURE__ */ Object.freeze({
@@ -48,7 +54,6 @@ export const defaults: Readonly<SealOptions> = /* @__PURE__ */ Object.freeze({
     algorithm: "sha256", // HMAC 哈希算法 (SHA-256)
     iterations: 1, // PBKDF2 迭代次数
     minPasswordlength: 32, // 最小密码长度要求
-    keyBits: 256, // 密钥位数
   }),
 });
 
@@ -72,7 +77,7 @@ export const algorithms = /* @__PURE__ */ Object.freeze({
   // SHA-256 配置 (用于 HMAC)
   sha256: /* @__PURE__ */ Object.freeze({
     keyBits: 256, // HMAC 密钥位数
-    ivBits: 128, // 注意：虽然 HMAC 不需要 IV，但这里为了结构统一可能保留了字段
+    ivBits: 128, // HMAC 不需要 IV，这里为了结构统一保留了字段
     name: "SHA-256", // Web Crypto API 哈希算法名称
   }),
 });
@@ -94,14 +99,14 @@ export const macPrefix = "Fe26.2"; // `Fe26.${macFormatVersion}`
  * @description 将对象序列化、加密并签名，生成一个 Iron 协议字符串 ("封印")。
  * @param object {Readonly<unknown>} 需要封印的对象 (必须是 JSON 可序列化的)。
  * @param password {Readonly<RawPassword>} 用于加密和签名的密码。可以是单个密码字符串/Buffer，或包含特定密码的对象。
- * @param opts {Readonly<SealOptions>} 加密和签名选项，会与 `defaults` 合并。
+ * @param opts {Readonly<SealOptions>} 加密和签名选项。
  * @returns {Promise<string>} 返回封印后的 Iron 协议字符串。
  * @throws {Error} 如果密码为空、密码 ID 无效或加密/签名过程中出错。
  */
 export async function seal(
-  object: Readonly<unknown>,
-  password: Readonly<RawPassword>,
-  opts: Readonly<SealOptions>,
+  object: unknown,
+  password: RawPassword,
+  opts: SealOptions,
 ): Promise<string> {
   // 获取当前时间戳，并应用本地时间偏移
   const now = Date.now() + (opts.localtimeOffsetMsec || 0);
@@ -116,56 +121,36 @@ export async function seal(
     throw new Error("Invalid password id");
   }
 
-  // 步骤 1: 加密数据
-  //    - 使用规范化后的加密密码和选项生成加密密钥 (包含盐值和 IV)
-  //    - 将对象序列化为 JSON 字符串
-  //    - 使用生成的密钥加密 JSON 字符串
-  const encryptionKey = await generateKey(encryption, opts.encryption);
-  const integrityKey = await generateKey(integrity, opts.integrity);
-
-  // Convert generated bytes to base64url strings for the sealed format
-  const saltB64 = bytesToBase64Url(encryptionKey.salt);
-  if (!encryptionKey.iv) {
-    throw new Error("IV is required for encryption but was not generated or provided.");
-  }
-  const ivB64 = bytesToBase64Url(encryptionKey.iv);
-  const integritySaltB64 = bytesToBase64Url(integrityKey.salt);
-
-  const serialized = JSON.stringify(object);
-  // Pass the raw IV bytes (encryptionKey.iv) to the encrypt function
-  // Encrypt function now returns an object { encrypted: Uint8Array, key: Key }
-  const { encrypted: encryptedBytes } = await encrypt(encryption, opts.encryption, encryptionKey.iv, serialized);
-  const encryptedB64 = bytesToBase64Url(encryptedBytes);
+  // 步骤 1: 加密数据（密钥的盐值和 IV 会随机生成，并写进封印字符串，解封时用它们重新派生密钥）
+  const { encrypted, key } = await encrypt(
+    encryption,
+    opts.encryption,
+    JSON.stringify(object),
+  );
+  const encryptedB64 = base64Encode(encrypted);
+  const iv = base64Encode(key.iv);
   const expiration = opts.ttl ? now + opts.ttl : "";
 
-  // 步骤 2: 生成 MAC (消息认证码) 基础字符串
-  //    格式: prefix*id*encryptionSalt*encryptionIvB64*encryptedDataB64*expiration
-  //    这个字符串包含了所有需要进行完整性校验的信息。
-  const macBaseString = `${macPrefix}*${id}*${saltB64}*${ivB64}*${encryptedB64}*${expiration}*${integritySaltB64}`;
-
-  // Explicitly encode the string to Uint8Array before passing to hmac
-  const macBaseStringBytes = textEncoder.encode(macBaseString);
-  // Use the 'hmacWithPassword' function which generates the key internally
-  // and now returns { digest: string (base64url), salt: Uint8Array }
-  const macResult = await hmacWithPassword(integrity, opts.integrity, macBaseStringBytes as Uint8Array);
-
-  // The digest is already base64url encoded by hmacWithPassword
-  const macDigestB64url = macResult.digest;
-  // Convert the salt returned by hmacWithPassword to base64url
-  const hmacSaltB64url = bytesToBase64Url(macResult.salt);
-
-  // 步骤 4: 组合最终的封印字符串
-  //    格式: macBaseString*hmacSaltB64url*hmacDigestB64url
-  //    将 MAC 基础字符串、HMAC 计算时使用的盐值 (base64url)、以及 HMAC 摘要 (base64url) 组合在一起。
-  const sealed = `${macBaseString}*${hmacSaltB64url}*${macDigestB64url}`;
-  return sealed;
+  // 步骤 2: 生成 MAC 基础字符串，包含了所有需要进行完整性校验的信息
+  const macBaseString = `${macPrefix}*${id}*${key.salt}*${iv}*${encryptedB64}*${expiration}`;
+
+  // 步骤 3: 计算 HMAC 并组合最终的封印字符串
+  const mac = await hmacWithPassword(integrity, opts.integrity, macBaseString);
+  return `${macBaseString}*${mac.salt}*${mac.digest}`;
 }
 
-/** Verifies, decrypts, and reconstruct an iron protocol string into an object. */
+/**
+ * @description 校验、解密 Iron 协议字符串，还原成原来的对象 ("解封")。
+ * @param sealed {string} 封印后的 Iron 协议字符串。
+ * @param password {Password | PasswordHash} 密码，或者按密码 ID 索引的密码表 (用于密码轮换)。
+ * @param opts {Readonly<SealOptions>} 加密和签名选项，需要和封印时一致。
+ * @returns {Promise<unknown>} 返回解封后的对象。
+ * @throws {Error} 如果格式错误、已过期、找不到密码或完整性校验失败。
+ */
 export async function unseal(
   sealed: string,
   password: Password | PasswordHash,
-  opts: Readonly<SealOptions>,
+  opts: SealOptions,
 ): Promise<unknown> {
   const now = Date.now() + (opts.localtimeOffsetMsec || 0);
 
@@ -178,13 +163,14 @@ export async function unseal(
     throw new Error("Incorrect number of sealed components");
   }
   // prettier-ignore
-  const [prefix, passwordId, encryptionSaltB64, encryptionIvB64, encryptedB64, expiration, hmacSaltB64, hmac] = parts;
-  const macBaseString = `${prefix}*${passwordId}*${encryptionSaltB64}*${encryptionIvB64}*${encryptedB64}*${expiration}*${hmacSaltB64}`;
+  const [prefix, passwordId, encryptionSalt, encryptionIv, encryptedB64, expiration, hmacSalt, hmac] = parts;
+  const macBaseString = `${prefix}*${passwordId}*${encryptionSalt}*${encryptionIv}*${encryptedB64}*${expiration}`;
 
   if (macPrefix !== prefix) {
     throw new Error("Wrong mac prefix");
   }
 
+  // 检查是否过期（允许 timestampSkewSec 秒的时钟偏差）
   if (expiration) {
     if (!/^\d+$/.test(expiration)) {
       throw new Error("Invalid expiration");
@@ -195,6 +181,7 @@ export async function unseal(
     }
   }
 
+  // 根据封印字符串中的密码 ID 找到对应的密码
   let pass: RawPassword = "";
   const _passwordId = passwordId || "default";
   if (typeof password === "string" || password instanceof Uint8Array) {
@@ -204,164 +191,187 @@ export async function unseal(
   } else {
     throw new Error(`Cannot find password: ${_passwordId}`);
   }
+  const normalized = normalizePassword(pass);
 
-  pass = normalizePassword(pass);
-
-  // prettier-ignore
-  const mac = await hmacWithPassword(pass.integrity, { ...opts.integrity, salt: base64UrlToBytes(hmacSaltB64) }, textEncoder.encode(macBaseString));
-
+  // 先校验完整性，再解密
+  const mac = await hmacWithPassword(
+    normalized.integrity,
+    { ...opts.integrity, salt: hmacSalt },
+    macBaseString,
+  );
   if (!fixedTimeComparison(mac.digest, hmac)) {
     throw new Error("Bad hmac value");
   }
 
   const encrypted = base64Decode(encryptedB64);
-
-  const decryptOptions: EncryptionGenerateKeyOptions = {
+  const decryptOptions: GenerateKeyOptions<EncryptionAlgorithm> = {
     ...opts.encryption,
-    salt: base64UrlToBytes(encryptionSaltB64),
-    iv: base64UrlToBytes(encryptionIvB64),
+    salt: encryptionSalt,
+    iv: base64Decode(encryptionIv),
   };
-
-  const decrypted = await decrypt(pass.encryption, decryptOptions, encrypted);
+  const decrypted = await decrypt(
+    normalized.encryption,
+    decryptOptions,
+    encrypted,
+  );
 
   return decrypted ? JSON.parse(decrypted) : null;
 }
 
 // --- hmac ---
 
-/** Calculates a HMAC digest. */
+/**
+ * @description 使用密码计算 HMAC 摘要。
+ * @returns 摘要 (base64url) 和派生密钥时使用的盐值。
+ */
 export async function hmacWithPassword(
   password: Password,
-  options: IntegrityGenerateKeyOptions,
-  data: Uint8Array, // Changed from string | Uint8Array
+  options: GenerateKeyOptions<IntegrityAlgorithm>,
+  data: string,
 ): Promise<HMacResult> {
-  const key: Key = await generateKey(password, options); // Add explicit : Key type
-  // Directly use the provided Uint8Array data
-  const textBuffer = data;
+  const key = await generateKey(password, { ...options, hmac: true });
+  const textBuffer = textEncoder.encode(data);
   // prettier-ignore
   const signed = await crypto.subtle.sign({ name: "HMAC" }, key.key, textBuffer);
-  // Return base64url encoded digest consistent with the rest of the protocol
-  const digest = bytesToBase64Url(new Uint8Array(signed));
-  // Add explicit cast to salt
-  return { digest, salt: key.salt as Uint8Array };
+  const digest = base64Encode(new Uint8Array(signed));
+  return { digest, salt: key.salt };
 }
 
 // --- key generation ---
 
 /**
- * @description 从密码生成用于加密/解密的密钥材料。
+ * @description 从密码生成用于加密/解密或签名的密钥。
+ *
+ * - 密码是字符串时，使用 PBKDF2 和盐值派生密钥（没有提供盐值时随机生成）
+ * - 密码是 Uint8Array 时，直接作为密钥使用（长度必须满足算法要求）
+ *
  * @param password {Password} 密码字符串或 Buffer。
- * @param options {GenerateKeyOptions<EncryptionAlgorithm | IntegrityAlgorithm>} 生成密钥的选项，包括算法、盐值、IV (仅加密)、迭代次数、最小密码长度和密钥长度。
- * @returns {Promise<Key>} 返回一个包含密钥 (CryptoKey)、盐值和 IV (仅加密) 的对象。
- * @throws {Error} 如果密码太短。
+ * @param options {GenerateKeyOptions} 生成密钥的选项，包括算法、盐值、IV、迭代次数和最小密码长度。
+ * @returns {Promise<Key>} 返回一个包含密钥 (CryptoKey)、盐值和 IV 的对象。
+ * @throws {Error} 如果密码为空或太短、选项无效或算法未知。
  */
-async function generateKey(
+export async function generateKey(
   password: Password,
   options: GenerateKeyOptions,
 ): Promise<Key> {
-  // Merge provided options with defaults for the specific algorithm type
-  const baseDefaults = options.algorithm.startsWith('aes') ? defaults.encryption : defaults.integrity;
-  const mergedOptions = { ...baseDefaults, ...options } as EncryptionGenerateKeyOptions | IntegrityGenerateKeyOptions;
-
-  // 检查密码长度是否满足最小要求
-  if (password.length < mergedOptions.minPasswordlength) {
-    throw new Error(`Password must be at least ${mergedOptions.minPasswordlength} characters`);
+  if (!password?.length) {
+    throw new Error("Empty password");
+  }
+  if (options == null || typeof options !== "object") {
+    throw new Error("Bad options");
+  }
+  if (!(options.algorithm in algorithms)) {
+    throw new Error(`Unknown algorithm: ${options.algorithm}`);
   }
 
-  // passwordBytes is used below
-  const passwordBytes = typeof password === "string" ? textEncoder.encode(password) : password;
-
-  if (mergedOptions.iterations > 0) { // PBKDF2 derivation
-    const salt = options.salt
-      ? (typeof options.salt === 'string' ? base64UrlToBytes(options.salt) : options.salt)
-      : crypto.getRandomValues(new Uint8Array(options.saltBits / 8));
-
-    let iv: Uint8Array | undefined;
-    if ('ivBits' in options) { // Type guard should narrow options type here
-      iv = options.iv || crypto.getRandomValues(new Uint8Array(options.ivBits / 8));
+  const algorithm = algorithms[options.algorithm];
+  const hmac = options.hmac ?? false;
+  const id = hmac
+    ? { name: "HMAC", hash: algorithm.name }
+    : { name: algorithm.name };
+  const usage: KeyUsage[] = hmac ? ["sign", "verify"] : ["encrypt", "decrypt"];
+
+  let resultKey: CryptoKey;
+  let resultSalt: string;
+  if (typeof password === "string") {
+    // 检查密码长度是否满足最小要求
+    if (password.length < options.minPasswordlength) {
+      throw new Error(
+        `Password string too short (min ${options.minPasswordlength} characters required)`,
+      );
     }
-
-    const baseKey = await crypto.subtle.importKey(
-      "raw",
-      passwordBytes,
-      { name: "PBKDF2" },
-      false,
-      ["deriveBits"],
-    );
-
-    const derivedKeyBytes = await crypto.subtle.deriveBits(
-      {
-        name: "PBKDF2",
-        salt,
-        iterations: options.iterations,
-        hash: "SHA-256",
-      },
-      baseKey,
-      options.keyBits,
+    let { salt = "" } = options;
+    if (!salt) {
+      const { saltBits = 0 } = options;
+      if (!saltBits) {
+        throw new Error("Missing salt and saltBits options");
+      }
+      // 随机盐值以十六进制字符串的形式写进封印字符串
+      salt = [...randomBits(saltBits)]
+        .map((x) => x.toString(16).padStart(2, "0"))
+        .join("");
+    }
+    const derivedKey = await pbkdf2(
+      password,
+      salt,
+      options.iterations,
+      algorithm.keyBits / 8,
+      "SHA-1",
     );
-
-    const hmac = options.algorithm.startsWith("sha");
-    const id = hmac ? { name: "HMAC", hash: "SHA-256" } : { name: options.algorithm.toUpperCase().replace(/-(\d+)/, "-$1") };
-    const usage: KeyUsage[] = hmac ? ["sign", "verify"] : ["encrypt", "decrypt"];
-
-    const key = await crypto.subtle.importKey(
+    resultKey = await crypto.subtle.importKey(
       "raw",
-      derivedKeyBytes,
+      derivedKey,
       id,
       false,
       usage,
     );
-
-    return { key, salt, iv } as Key;
+    resultSalt = salt;
   } else {
-    // Direct password usage (password IS the key material)
-    // IMPORTANT: Password length MUST match expected key length for the algorithm
-    // This path is generally not recommended for user-provided passwords.
-    const cryptoKey = await crypto.subtle.importKey(
+    // 二进制密码直接作为密钥使用
+    if (password.length < algorithm.keyBits / 8) {
+      throw new Error("Key buffer (password) too small");
+    }
+    resultKey = await crypto.subtle.importKey(
       "raw",
-      passwordBytes,
-      mergedOptions.algorithm.startsWith('aes') ? "AES-CBC" : "HMAC", // Assuming HMAC if not AES
-      true,
-      mergedOptions.algorithm.startsWith('aes') ? ["encrypt", "decrypt"] : ["sign", "verify"],
+      password,
+      id,
+      false,
+      usage,
     );
+    resultSalt = "";
+  }
 
-    // Generate IV if needed for encryption algorithms
-    const iv = mergedOptions.algorithm.startsWith('aes-')
-      ? ((mergedOptions as EncryptionGenerateKeyOptions).iv
-        ? (typeof (mergedOptions as EncryptionGenerateKeyOptions).iv === 'string' ? base64UrlToBytes((mergedOptions as EncryptionGenerateKeyOptions).iv as string) : (mergedOptions as EncryptionGenerateKeyOptions).iv)
-        : crypto.getRandomValues(new Uint8Array(16))) // Generate 16-byte IV if not provided
-      : undefined;
+  // 解密时使用封印字符串中的 IV，加密时随机生成
+  const resultIV = options.iv || randomBits(options.ivBits || algorithm.ivBits);
 
-    // Return the key, an EMPTY salt (as none was used/generated), and IV (if applicable)
-    return { key: cryptoKey, salt: new Uint8Array(0), iv };
-  }
+  return { key: resultKey, salt: resultSalt, iv: resultIV };
+}
+
+// 使用 PBKDF2 从字符串密码派生密钥
+async function pbkdf2(
+  password: string,
+  salt: string,
+  iterations: number,
+  keyLength: number,
+  hash: "SHA-1",
+): Promise<ArrayBuffer> {
+  const passwordBuffer = textEncoder.encode(password);
+  // prettier-ignore
+  const importedKey = await crypto.subtle.importKey("raw", passwordBuffer, { name: "PBKDF2" }, false, ["deriveBits"]);
+  const saltBuffer = textEncoder.encode(salt);
+  const params = { name: "PBKDF2", hash, salt: saltBuffer, iterations };
+  return crypto.subtle.deriveBits(params, importedKey, keyLength * 8);
 }
 
 // --- encrypt/decrypt ---
 
+/**
+ * @description 使用密码加密数据。
+ * @returns 密文和使用的密钥（包含盐值和 IV，封印时需要写进字符串）。
+ */
 export async function encrypt(
   password: Password,
-  options: EncryptionGenerateKeyOptions,
-  iv: Uint8Array,
+  options: GenerateKeyOptions<EncryptionAlgorithm>,
   data: string,
 ): Promise<{ encrypted: Uint8Array; key: Key }> {
   const key = await generateKey(password, options);
   const encrypted = await crypto.subtle.encrypt(
-    // Pass the provided 'iv' parameter explicitly
-    ...getEncryptParams(options.algorithm, key, iv, data),
+    ...getEncryptParams(options.algorithm, key, data),
   );
   return { encrypted: new Uint8Array(encrypted), key };
 }
 
+/**
+ * @description 使用密码解密数据，`options`中需要包含加密时的盐值和 IV。
+ */
 export async function decrypt(
   password: Password,
-  options: EncryptionGenerateKeyOptions,
+  options: GenerateKeyOptions<EncryptionAlgorithm>,
   data: Uint8Array | string,
 ): Promise<string> {
   const key = await generateKey(password, options);
   const decrypted = await crypto.subtle.decrypt(
-    // Pass the IV explicitly now
-    ...getEncryptParams(options.algorithm, key, options.iv!, data),
+    ...getEncryptParams(options.algorithm, key, data),
   );
   return textDecoder.decode(decrypted);
 }
@@ -369,17 +379,16 @@ export async function decrypt(
 function getEncryptParams(
   algorithm: EncryptionAlgorithm,
   key: Key,
-  iv: Uint8Array,
   data: Uint8Array | string,
 ): [AesCbcParams | AesCtrParams, CryptoKey, Uint8Array] {
   return [
     algorithm === "aes-128-ctr"
-      ? ({ // Assert non-null for counter and iv below
+      ? ({
           name: "AES-CTR",
-          counter: iv, // Assert non-null: iv is always generated during encryption
+          counter: key.iv,
           length: 128,
         } satisfies AesCtrParams)
-      : ({ name: "AES-CBC", iv } satisfies AesCbcParams),
+      : ({ name: "AES-CBC", iv: key.iv } satisfies AesCbcParams),
     key.key,
     typeof data === "string" ? textEncoder.encode(data) : data,
   ];
@@ -390,179 +399,122 @@ function getEncryptParams(
 /** Returns true if `a` is equal to `b`, without leaking timing information that would allow an attacker to guess one of the values. */
 function fixedTimeComparison(a: string, b: string): boolean {
   let mismatch = a.length === b.length ? 0 : 1;
-  if (mismatch) b = a;
-  for (let i = 0; i < a.length; i += 1)
+  if (mismatch) {
+    b = a;
+  }
+  for (let i = 0; i < a.length; i += 1) {
     mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
   return mismatch === 0;
 }
 
 /** Normalizes a password parameter. */
 function normalizePassword(password: RawPassword): NormalizedPassword {
-  let id = "";
-  let encryptionPassword: Password = "";
-  let integrityPassword: Password = "";
-
   if (typeof password === "string" || password instanceof Uint8Array) {
-    // Case 1: Simple password string or buffer
-    encryptionPassword = password;
-    integrityPassword = password;
-  } else if ("secret" in password) {
-    // Case 2: Object with 'secret' property (RawPasswordObject or old PasswordSecret)
-    id = password.id || "";
-    encryptionPassword = password.secret;
-    integrityPassword = password.secret;
-  } else if ("encryption" in password && "integrity" in password) {
-    // Case 3: Object with specific 'encryption' and 'integrity' passwords
-    id = password.id || ""; // Handle missing id for this specific type
-    encryptionPassword = password.encryption;
-    integrityPassword = password.integrity;
+    return { encryption: password, integrity: password };
+  }
+  if ("secret" in password) {
+    return {
+      id: password.id,
+      encryption: password.secret,
+      integrity: password.secret,
+    };
   }
+  return {
+    id: password.id,
+    encryption: password.encryption,
+    integrity: password.integrity,
+  };
+}
 
-  return { id, encryption: encryptionPassword, integrity: integrityPassword };
+/** Generates cryptographically strong pseudorandom bits. */
+export function randomBits(bits: number): Uint8Array {
+  if (bits < 1) {
+    throw new Error("Invalid random bits count");
+  }
+  const bytes = new Uint8Array(Math.ceil(bits / 8));
+  crypto.getRandomValues(bytes);
+  return bytes;
 }
 
-/**
- * @description 加密和签名选项。
- */
+// --- Types ---
+
+/** Algorithm used for encryption and decryption. */
+type EncryptionAlgorithm = "aes-128-ctr" | "aes-256-cbc";
+
+/** Algorithm used for integrity verification. */
+export type IntegrityAlgorithm = "sha256";
+
+/** @internal */
+type _Algorithm = EncryptionAlgorithm | IntegrityAlgorithm;
+
+/** Options for customizing the key derivation algorithm used to generate encryption and integrity verification keys as well as the algorithms and salt sizes used. */
 export type SealOptions = Readonly<{
+  /** Encryption step options. */
+  encryption: SealOptionsSub<EncryptionAlgorithm>;
+  /** Integrity step options. */
+  integrity: SealOptionsSub<IntegrityAlgorithm>;
+  /** Sealed object lifetime in milliseconds where 0 means forever. Defaults to 0. */
   ttl: number;
+  /** Number of seconds of permitted clock skew for incoming expirations. Defaults to 60 seconds. */
   timestampSkewSec: number;
+  /** Local clock time offset, expressed in number of milliseconds (positive or negative). Defaults to 0. */
   localtimeOffsetMsec: number;
-  encryption: EncryptionSealOptions;
-  integrity: IntegritySealOptions;
 }>;
 
-/** Options specific to an encryption algorithm. */
-interface EncryptionSealOptions {
+/** `seal()` method options. */
+type SealOptionsSub<Algorithm extends _Algorithm = _Algorithm> = Readonly<{
+  /** The length of the salt (random buffer used to ensure that two identical objects will generate a different encrypted result). Defaults to 256. */
   saltBits: number;
-  algorithm: EncryptionAlgorithm;
+  /** The algorithm used. Defaults to 'aes-256-cbc' for encryption and 'sha256' for integrity. */
+  algorithm: Algorithm;
+  /** The number of iterations used to derive a key from the password. Defaults to 1. */
   iterations: number;
+  /** Minimum password size. Defaults to 32. */
   minPasswordlength: number;
-  keyBits: number;
-  ivBits: number;
-}
-
-/** Options specific to an integrity algorithm. */
-interface IntegritySealOptions {
-  saltBits: number;
-  algorithm: IntegrityAlgorithm;
-  iterations: number;
-  minPasswordlength: number;
-  keyBits: number;
-}
+}>;
 
 /** Password secret string or buffer.*/
 type Password = Uint8Array | string;
 
-/** Password hash object `{ <id>: <password>, ... }`. */
-type PasswordHash = Record<string, Password | RawPassword>;
-
-/** Password object `{ id: <password id>, secret: <password>, encryption: <encryption options>, integrity: <integrity options>}`. */
-type RawPasswordObject = Readonly<Record<string, unknown>> & {
-  id: string;
-  secret: Password;
-  encryption: EncryptionSealOptions;
-  integrity: IntegritySealOptions;
-};
+/** Password hash object `{ <id>: <password>, ... }`, used to rotate passwords. */
+type PasswordHash = Readonly<Record<string, Password | RawPassword>>;
 
-/** Raw password format. */
+/** Secret object `{ id: <password id>, secret: <password> }`, or separate passwords for each step. */
 type RawPassword =
   | Password
-  | RawPasswordObject
-  | Readonly<{ encryption: Password; integrity: Password; id?: string }>;
+  | Readonly<{ id?: string; secret: Password }>
+  | Readonly<{ id?: string; encryption: Password; integrity: Password }>;
 
 /** Normalized password object. */
-interface NormalizedPassword extends Readonly<Record<string, unknown>> {
+type NormalizedPassword = Readonly<{
   id?: string;
   encryption: Password;
   integrity: Password;
-}
-
-// --- Key Generation Option Types ---
-
-/** Options specific to encryption keys. */
-export interface EncryptionGenerateKeyOptions {
-  salt?: string | Uint8Array;
-  saltBits: number;
-  iterations: number;
-  minPasswordlength: number;
-  keyBits: number;
-  algorithm: EncryptionAlgorithm;
-  iv?: Uint8Array;
-  ivBits: number;
-}
-
-/** Options specific to integrity keys. */
-export interface IntegrityGenerateKeyOptions {
-  salt?: string | Uint8Array;
-  saltBits: number;
-  iterations: number;
-  minPasswordlength: number;
-  keyBits: number;
-  algorithm: IntegrityAlgorithm;
-}
+}>;
 
-/** Union type for generateKey function. */
-export type GenerateKeyOptions = EncryptionGenerateKeyOptions | IntegrityGenerateKeyOptions;
+/** Key generation options. */
+export type GenerateKeyOptions<Algorithm extends _Algorithm = _Algorithm> =
+  Pick<
+    SealOptionsSub<Algorithm>,
+    "algorithm" | "iterations" | "minPasswordlength"
+  > & {
+    saltBits?: number | undefined;
+    salt?: string | undefined;
+    iv?: Uint8Array | undefined;
+    ivBits?: number | undefined;
+    hmac?: boolean | undefined;
+  };
 
 /** Generated internal key object. */
 export type Key = Readonly<{
   key: CryptoKey;
-  salt: Uint8Array;
-  iv?: Uint8Array;
+  salt: string;
+  iv: Uint8Array;
 }>;
 
 /** Generated HMAC internal results. */
-export interface HMacResult {
+export type HMacResult = Readonly<{
   digest: string;
   salt: string;
-}
-
-// --- Types ---
-
-/** Algorithm used for encryption and decryption. */
-type EncryptionAlgorithm = "aes-128-ctr" | "aes-256-cbc";
-
-/** Algorithm used for integrity verification. */
-export type IntegrityAlgorithm = "sha256";
-
-/** @internal */
-type _Algorithm = EncryptionAlgorithm | IntegrityAlgorithm;
-
-// --- Utility Helpers ---
-
-/**
- * Converts a Uint8Array to a base64url encoded string.
- * @param bytes The byte array to encode.
- * @returns The base64url encoded string.
- */
-function bytesToBase64Url(bytes: Uint8Array): string {
-  // Standard base64 encoding
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  const base64 = btoa(binary);
-  // Make it URL-safe
-  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
-}
-
-/**
- * Converts a base64url encoded string to a Uint8Array.
- * @param base64url The base64url encoded string.
- * @returns The decoded Uint8Array.
- */
-function base64UrlToBytes(base64url: string): Uint8Array {
-  // Add padding back if necessary
-  base64url = base64url.padEnd(base64url.length + (4 - (base64url.length % 4)) % 4, '=');
-  // Convert base64url to standard base64
-  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/');
-  // Decode base64
-  const binStr = atob(base64);
-  const bytes = new Uint8Array(binStr.length);
-  for (let i = 0; i < binStr.length; i++) {
-    bytes[i] = binStr.charCodeAt(i);
-  }
-  return bytes;
-}
+}>;
@@ -0,0 +1,85 @@
+/**
+ * 根据文件扩展名获取内容类型
+ *
+ * 浏览器收到文件时要靠`content-type`响应头判断怎么处理：`text/html`就渲染成网页，
+ * `image/png`就显示成图片，不认识的类型就当成下载。
+ * 这就像快递包裹上的标签：“易碎品”“生鲜”，收件人看到标签就知道怎么处理。
+ *
+ * 这里只收录了网站常用的扩展名，值来自`MimeType`类型（IANA 媒体类型注册表）。
+ * 一些常用但没有在注册表中的类型（如`text/plain`、`image/jpeg`）也写在这里。
+ */
+
+import type { MimeType } from "../../types";
+
+type AnyString = string & {};
+
+// 文本类型需要带上字符集，否则浏览器可能会用错误的编码显示中文
+const TEXT_TYPES = new Set([
+  "text/html",
+  "text/css",
+  "text/plain",
+  "text/javascript",
+  "text/markdown",
+  "text/csv",
+  "text/xml",
+  "application/json",
+  "application/manifest+json",
+  "image/svg+xml",
+]);
+
+const MIME_TYPES: Record<string, MimeType | AnyString> = {
+  html: "text/html",
+  htm: "text/html",
+  css: "text/css",
+  js: "text/javascript",
+  mjs: "text/javascript",
+  cjs: "text/javascript",
+  json: "application/json",
+  map: "application/json",
+  webmanifest: "application/manifest+json",
+  txt: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  xml: "text/xml",
+  wasm: "application/wasm",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  gz: "application/gzip",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  svg: "image/svg+xml",
+  webp: "image/webp",
+  avif: "image/avif",
+  ico: "image/vnd.microsoft.icon",
+  bmp: "image/bmp",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  mp3: "audio/mpeg",
+  ogg: "audio/ogg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  webm: "video/webm",
+};
+
+/**
+ * 获取文件路径对应的内容类型，未知的扩展名返回 undefined
+ *
+ * @param path - 文件路径（如`/assets/app.js`）
+ * @returns 内容类型（如`text/javascript; charset=utf-8`）
+ */
+export function getMimeType(path: string): string | undefined {
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  const dot = name.lastIndexOf(".");
+  if (dot < 1) {
+    return undefined;
+  }
+  const type = MIME_TYPES[name.slice(dot + 1).toLowerCase()];
+  if (!type) {
+    return undefined;
+  }
+  return TEXT_TYPES.has(type) ? `${type}; charset=utf-8` : type;
+}
@@ -0,0 +1,362 @@
+/**
+ * multipart/form-data 流式解析
+ *
+ * 浏览器上传文件时，请求体会被分成好几个“部分”（part），每个部分之间用一条分隔线（boundary）隔开：
+ *
+ * ```
+ * --boundary
+ * Content-Disposition: form-data; name="title"
+ *
+ * 你好
+ * --boundary
+ * Content-Disposition: form-data; name="file"; filename="a.png"
+ * Content-Type: image/png
+ *
+ * <文件内容>
+ * --boundary--
+ * ```
+ *
+ * 这里的解析器一边从请求流中读取数据，一边寻找分隔线，把每个部分的内容作为一个流交给调用者，
+ * 所以即使上传很大的文件，也不需要把整个文件放进内存。
+ */
+
+import type { H3Event, MultipartPart, ReadMultipartOptions } from "../../types";
+import { createError } from "../../error";
+import { EmptyObject } from "./obj";
+import { hasProp } from "./object";
+import { textDecoder, textEncoder } from "./encoding";
+
+// 头部区域最大允许的字节数
+const MAX_HEADERS_SIZE = 16 * 1024;
+
+const CRLF_CRLF = /* @__PURE__ */ new Uint8Array([13, 10, 13, 10]);
+
+/**
+ * 逐个读取 multipart/form-data 请求体中的部分
+ *
+ * @param event - H3事件对象
+ * @param opts - 解析选项（大小、数量和类型限制）
+ */
+export async function* parseMultipart(
+  event: H3Event,
+  opts: ReadMultipartOptions = {},
+): AsyncGenerator<MultipartPart> {
+  const contentType = event.request.headers.get("content-type") || "";
+  if (!/^multipart\/form-data(;|$)/i.test(contentType)) {
+    throw createError({
+      statusCode: 415,
+      statusMessage: "Unsupported Media Type",
+      message: "Expected multipart/form-data body",
+    });
+  }
+  const boundary = getBoundary(contentType);
+  if (!boundary) {
+    throw createMultipartError("Missing multipart boundary");
+  }
+
+  const { maxBodySize } = opts;
+  const contentLength = Number(event.request.headers.get("content-length"));
+  if (maxBodySize !== undefined && contentLength > maxBodySize) {
+    throw createTooLargeError(
+      `Request body exceeds the limit of ${maxBodySize} bytes`,
+    );
+  }
+
+  const body = event.request.body;
+  if (!body) {
+    return;
+  }
+
+  // 每个部分的结尾都是 "\r\n--boundary"
+  const delimiter = textEncoder.encode(`\r\n--${boundary}`);
+  const reader = body.getReader();
+
+  // 在开头补上 "\r\n"，这样第一条分隔线也能用同一个 delimiter 找到
+  let buffer: Uint8Array = new Uint8Array([13, 10]);
+  let bodySize = 0;
+
+  // 从请求流中再读一块数据，流结束时返回 false
+  const pull = async (): Promise<boolean> => {
+    const { done, value } = await reader.read();
+    if (done) {
+      return false;
+    }
+    bodySize += value.byteLength;
+    if (maxBodySize !== undefined && bodySize > maxBodySize) {
+      throw createTooLargeError(
+        `Request body exceeds the limit of ${maxBodySize} bytes`,
+      );
+    }
+    buffer = concatBytes(buffer, value);
+    return true;
+  };
+
+  try {
+    // 跳过第一条分隔线之前的内容（preamble）
+    while (true) {
+      const index = indexOfBytes(buffer, delimiter);
+      if (index !== -1) {
+        buffer = buffer.subarray(index + delimiter.length);
+        break;
+      }
+      buffer = buffer.subarray(
+        Math.max(0, buffer.length - delimiter.length + 1),
+      );
+      if (!(await pull())) {
+        throw createMultipartError("Missing multipart boundary in body");
+      }
+    }
+
+    let files = 0;
+    while (true) {
+      // 分隔线后面是 "--"（结束）或者 "\r\n"（下一个部分的头部）
+      while (buffer.length < 2) {
+        if (!(await pull())) {
+          throw createMultipartError("Unexpected end of multipart body");
+        }
+      }
+      if (buffer[0] === 45 /* - */ && buffer[1] === 45 /* - */) {
+        return;
+      }
+
+      // 读取头部，直到遇到空行
+      let headersEnd: number;
+      while ((headersEnd = indexOfBytes(buffer, CRLF_CRLF)) === -1) {
+        if (buffer.length > MAX_HEADERS_SIZE) {
+          throw createMultipartError("Multipart headers are too large");
+        }
+        if (!(await pull())) {
+          throw createMultipartError("Unexpected end of multipart body");
+        }
+      }
+      if (buffer[0] !== 13 || buffer[1] !== 10) {
+        throw createMultipartError("Invalid multipart boundary");
+      }
+      const headers = parseHeaders(
+        textDecoder.decode(buffer.subarray(2, headersEnd)),
+      );
+      buffer = buffer.subarray(headersEnd + CRLF_CRLF.length);
+
+      const disposition = parseParams(headers.get("content-disposition"));
+      const name = disposition.name;
+      if (name === undefined) {
+        throw createMultipartError("Missing name of multipart part");
+      }
+      const filename = disposition["filename*"] ?? disposition.filename;
+      const type = headers.get("content-type") || "text/plain";
+
+      if (filename !== undefined) {
+        if (opts.maxFiles !== undefined && ++files > opts.maxFiles) {
+          throw createTooLargeError(
+            `Number of files exceeds the limit of ${opts.maxFiles}`,
+          );
+        }
+        if (opts.allowedTypes && !isAllowedType(type, opts.allowedTypes)) {
+          throw createError({
+            statusCode: 415,
+            statusMessage: "Unsupported Media Type",
+            message: `File type "${type}" is not allowed`,
+          });
+        }
+      }
+
+      const maxSize = filename === undefined ? undefined : opts.maxFileSize;
+      let ended = false;
+      let size = 0;
+
+      // 读取当前部分的下一块内容，部分结束后返回 undefined
+      const readChunk = async (): Promise<Uint8Array | undefined> => {
+        while (!ended) {
+          let chunk: Uint8Array | undefined;
+          const index = indexOfBytes(buffer, delimiter);
+          if (index === -1) {
+            // 末尾可能是分隔线的开头，先留着
+            const safeLength = buffer.length - delimiter.length + 1;
+            if (safeLength > 0) {
+              chunk = buffer.subarray(0, safeLength);
+              buffer = buffer.subarray(safeLength);
+            } else if (!(await pull())) {
+              throw createMultipartError("Unexpected end of multipart body");
+            }
+          } else {
+            chunk = buffer.subarray(0, index);
+            buffer = buffer.subarray(index + delimiter.length);
+            ended = true;
+          }
+          if (chunk) {
+            size += chunk.byteLength;
+            if (maxSize !== undefined && size > maxSize) {
+              throw createTooLargeError(
+                `File "${filename}" exceeds the limit of ${maxSize} bytes`,
+              );
+            }
+            return chunk;
+          }
+        }
+        return undefined;
+      };
+
+      const stream = new ReadableStream<Uint8Array>(
+        {
+          async pull(controller) {
+            while (true) {
+              const chunk = await readChunk();
+              if (chunk === undefined) {
+                controller.close();
+                return;
+              }
+              if (chunk.byteLength > 0) {
+                controller.enqueue(chunk);
+                return;
+              }
+            }
+          },
+        },
+        // 只有调用者读取时才去读请求流
+        { highWaterMark: 0 },
+      );
+
+      yield {
+        name,
+        filename,
+        type,
+        headers,
+        stream,
+        text: () => new Response(stream).text(),
+        arrayBuffer: () => new Response(stream).arrayBuffer(),
+      };
+
+      // 调用者没有读完的内容直接丢弃
+      while ((await readChunk()) !== undefined) {
+        // drain
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * 读取 multipart/form-data 中的普通字段，文件部分会被跳过
+ *
+ * 同名字段会被合并成数组，和 URL 编码的表单一样。
+ */
+export async function readMultipartFields(
+  event: H3Event,
+  opts: ReadMultipartOptions = {},
+): Promise<Record<string, string | string[]>> {
+  const fields: Record<string, any> = new EmptyObject();
+  for await (const part of parseMultipart(event, opts)) {
+    if (part.filename !== undefined) {
+      continue;
+    }
+    const value = await part.text();
+    if (hasProp(fields, part.name)) {
+      if (!Array.isArray(fields[part.name])) {
+        fields[part.name] = [fields[part.name]];
+      }
+      fields[part.name].push(value);
+    } else {
+      fields[part.name] = value;
+    }
+  }
+  return fields;
+}
+
+function getBoundary(contentType: string): string | undefined {
+  const boundary = parseParams(contentType).boundary;
+  return boundary && boundary.length <= 70 ? boundary : undefined;
+}
+
+function parseHeaders(text: string): Headers {
+  const headers = new Headers();
+  for (const line of text.split("\r\n")) {
+    const index = line.indexOf(":");
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  }
+  return headers;
+}
+
+// 解析 `form-data; name="a"; filename="b.txt"` 这样的头部参数
+function parseParams(header: string | null): Record<string, string> {
+  const params: Record<string, string> = new EmptyObject();
+  if (!header) {
+    return params;
+  }
+  const re = /;\s*([^\s";=]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s";]*))/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(header))) {
+    const key = match[1].toLowerCase();
+    let value =
+      match[2] === undefined ? match[3] : match[2].replace(/\\(.)/g, "$1");
+    if (key.endsWith("*")) {
+      // RFC 5987: filename*=UTF-8''%E4%BD%A0%E5%A5%BD.txt
+      const encoded = value.slice(
+        value.indexOf("'", value.indexOf("'") + 1) + 1,
+      );
+      try {
+        value = decodeURIComponent(encoded);
+      } catch {
+        value = encoded;
+      }
+    }
+    params[key] = value;
+  }
+  return params;
+}
+
+function isAllowedType(type: string, allowedTypes: string[]): boolean {
+  const mime = type.split(";")[0].trim().toLowerCase();
+  return allowedTypes.some((allowed) => {
+    allowed = allowed.toLowerCase();
+    if (allowed === "*/*" || allowed === mime) {
+      return true;
+    }
+    return allowed.endsWith("/*") && mime.startsWith(allowed.slice(0, -1));
+  });
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array): number {
+  const first = needle[0];
+  const max = haystack.length - needle.length;
+  let index = haystack.indexOf(first);
+  while (index !== -1 && index <= max) {
+    let i = 1;
+    while (i < needle.length && haystack[index + i] === needle[i]) {
+      i++;
+    }
+    if (i === needle.length) {
+      return index;
+    }
+    index = haystack.indexOf(first, index + 1);
+  }
+  return -1;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.byteLength === 0) {
+    return b;
+  }
+  const bytes = new Uint8Array(a.byteLength + b.byteLength);
+  bytes.set(a);
+  bytes.set(b, a.byteLength);
+  return bytes;
+}
+
+function createMultipartError(message: string) {
+  return createError({
+    statusCode: 400,
+    statusMessage: "Bad Request",
+    message,
+  });
+}
+
+function createTooLargeError(message: string) {
+  return createError({
+    statusCode: 413,
+    statusMessage: "Payload Too Large",
+    message,
+  });
+}
@@ -0,0 +1,197 @@
+/**
+ * Accept-* 请求头的解析和内容协商
+ *
+ * `Accept`、`Accept-Language`、`Accept-Charset`和`Accept-Encoding`都使用同样的格式：
+ * 用逗号分隔的一组值，每个值可以带参数，其中`q`参数表示偏好程度（0到1，默认1）。
+ *
+ * ```
+ * Accept: text/html, application/json;q=0.9
+ * Accept-Language: zh-CN, zh;q=0.9, en;q=0.8
+ * ```
+ *
+ * 这就像顾客点菜时说：“最想要红烧肉，没有的话清蒸鱼也行，实在不行随便来一道”。
+ */
+
+export interface AcceptEntry {
+  /** 值（已转为小写），如`text/html`、`zh-cn`、`gzip` */
+  value: string;
+  /** 偏好程度，0表示不接受 */
+  q: number;
+  /** 除`q`之外的参数 */
+  params: Record<string, string>;
+}
+
+/**
+ * 匹配函数：返回匹配的具体程度（越大越具体），不匹配时返回 -1
+ */
+export type AcceptMatcher = (entry: AcceptEntry, available: string) => number;
+
+/**
+ * 解析 Accept-* 请求头
+ */
+export function parseAcceptHeader(header: string): AcceptEntry[] {
+  const entries: AcceptEntry[] = [];
+  for (const part of header.split(",")) {
+    const [rawValue, ...rawParams] = part.split(";");
+    const value = rawValue.trim().toLowerCase();
+    if (!value) {
+      continue;
+    }
+    let q = 1;
+    const params: Record<string, string> = {};
+    for (const rawParam of rawParams) {
+      const index = rawParam.indexOf("=");
+      if (index === -1) {
+        continue;
+      }
+      const key = rawParam.slice(0, index).trim().toLowerCase();
+      const paramValue = rawParam
+        .slice(index + 1)
+        .trim()
+        .replace(/^"(.*)"$/, "$1");
+      if (key === "q") {
+        const parsed = Number.parseFloat(paramValue);
+        q = Number.isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), 1);
+      } else {
+        params[key] = paramValue;
+      }
+    }
+    entries.push({ value, q, params });
+  }
+  return entries;
+}
+
+/**
+ * 按照偏好程度对可用的值排序，去掉不被接受的值
+ *
+ * 每个可用的值使用最具体的匹配项的`q`。`q`相同时，优先使用更具体的匹配，
+ * 然后按可用值本身的顺序（服务器的偏好）。
+ */
+export function sortByAccept(
+  entries: AcceptEntry[],
+  available: string[],
+  match: AcceptMatcher,
+): string[] {
+  const results: {
+    value: string;
+    q: number;
+    specificity: number;
+    order: number;
+  }[] = [];
+  for (const [order, value] of available.entries()) {
+    let best: { q: number; specificity: number } | undefined;
+    for (const entry of entries) {
+      const specificity = match(entry, value);
+      if (
+        specificity >= 0 &&
+        (!best ||
+          specificity > best.specificity ||
+          (specificity === best.specificity && entry.q > best.q))
+      ) {
+        best = { q: entry.q, specificity };
+      }
+    }
+    if (best && best.q > 0) {
+      results.push({ value, order, ...best });
+    }
+  }
+  return results
+    .sort(
+      (a, b) => b.q - a.q || b.specificity - a.specificity || a.order - b.order,
+    )
+    .map((r) => r.value);
+}
+
+// text/html;level=1 > text/html > text/* > */*
+export const matchMediaType: AcceptMatcher = (entry, available) => {
+  const [type, ...rawParams] = available.toLowerCase().split(";");
+  const [mainType, subType] = type.trim().split("/");
+  const [entryMainType, entrySubType] = entry.value.split("/");
+  let specificity = 0;
+  if (entryMainType !== "*") {
+    if (entryMainType !== mainType) {
+      return -1;
+    }
+    specificity += 4;
+  }
+  if (entrySubType !== "*") {
+    if (entrySubType !== subType) {
+      return -1;
+    }
+    specificity += 2;
+  }
+  const entryParams = Object.entries(entry.params);
+  if (entryParams.length > 0) {
+    const params = parseAcceptHeader(`_;${rawParams.join(";")}`)[0].params;
+    for (const [key, value] of entryParams) {
+      if (params[key] !== value) {
+        return -1;
+      }
+    }
+    specificity += 1;
+  }
+  return specificity;
+};
+
+// zh-cn > zh（匹配 zh-cn）> *
+export const matchLanguage: AcceptMatcher = (entry, available) => {
+  const tag = available.toLowerCase();
+  if (entry.value === "*") {
+    return 0;
+  }
+  if (entry.value === tag) {
+    return 4;
+  }
+  if (tag.startsWith(`${entry.value}-`)) {
+    return 2;
+  }
+  if (entry.value.startsWith(`${tag}-`)) {
+    return 1;
+  }
+  return -1;
+};
+
+// utf-8 > *（同样适用于 Accept-Encoding）
+export const matchToken: AcceptMatcher = (entry, available) => {
+  if (entry.value === "*") {
+    return 0;
+  }
+  return entry.value === available.toLowerCase() ? 1 : -1;
+};
+
+/**
+ * 按照`Accept-Encoding`请求头的偏好对可用的编码排序，去掉不被接受的编码
+ *
+ * 没有被明确拒绝的`identity`（不压缩）总是可以接受，但优先级最低。
+ */
+export function getAcceptedEncodings(
+  header: string | null,
+  available: string[],
+): string[] {
+  const entries = parseAcceptHeader(header || "");
+  const accepted = sortByAccept(entries, available, matchToken);
+  if (
+    available.includes("identity") &&
+    !accepted.includes("identity") &&
+    !entries.some((entry) => matchToken(entry, "identity") >= 0)
+  ) {
+    accepted.push("identity");
+  }
+  return accepted;
+}
+
+/**
+ * 给`vary`响应头追加一个值（不会重复添加）
+ */
+export function appendVary(headers: Headers, value: string) {
+  const current = headers.get("vary");
+  if (!current) {
+    headers.set("vary", value);
+    return;
+  }
+  const values = new Set(current.split(",").map((v) => v.trim().toLowerCase()));
+  if (values.has("*") || values.has(value.toLowerCase())) {
+    return;
+  }
+  headers.set("vary", `${current}, ${value}`);
+}
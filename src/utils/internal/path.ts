@@ -52,3 +52,75 @@ export function getPathname(path: string = "/") {
     ? path.split("?")[0]
     : new URL(path, "http://localhost").pathname;
 }
+
+export function fillRoutePath(
+  route: string,
+  params: Record<string, string | number> = {},
+): string {
+  const segments: string[] = [];
+  let unnamedIndex = 0;
+  const getParam = (name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null || value === "") {
+      throw new Error(`Missing param "${name}" for route "${route}"`);
+    }
+    return String(value);
+  };
+  // "." and ".." would make the generated URL point to another path
+  const encodeSegment = (value: string, name: string) => {
+    if (value === "." || value === "..") {
+      throw new Error(
+        `Invalid param "${name}" for route "${route}": "${value}" segments are not allowed`,
+      );
+    }
+    return encodeURIComponent(value);
+  };
+  for (const segment of route.split("/")) {
+    if (segment.startsWith("**")) {
+      // Wildcard may match zero segments
+      const name = segment.split(":")[1] || "_";
+      const value = params[name];
+      if (value !== undefined && value !== null && value !== "") {
+        segments.push(
+          ...String(value)
+            .split("/")
+            .map((s) => encodeSegment(s, name)),
+        );
+      }
+      break;
+    }
+    if (segment === "*") {
+      const name = `_${unnamedIndex++}`;
+      segments.push(encodeSegment(getParam(name), name));
+      continue;
+    }
+    // A param filling the whole segment must not be a dot segment
+    segments.push(
+      /^:\w+$/.test(segment)
+        ? encodeSegment(getParam(segment.slice(1)), segment.slice(1))
+        : segment.replace(/:(\w+)/g, (_, name) =>
+            encodeURIComponent(getParam(name)),
+          ),
+    );
+  }
+  return segments.join("/") || "/";
+}
+
+export function withQuery(
+  path: string,
+  query: Record<string, unknown> | undefined,
+): string {
+  if (!query) {
+    return path;
+  }
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) {
+        search.append(key, String(item));
+      }
+    }
+  }
+  const qs = search.toString();
+  return qs ? `${path}?${qs}` : path;
+}
@@ -0,0 +1,177 @@
+/**
+ * HTTP 范围请求（RFC 9110 第14节）
+ *
+ * 播放视频时拖动进度条、下载大文件时断点续传，浏览器都不会重新下载整个文件，
+ * 而是通过`Range`请求头只要其中的一段：
+ *
+ * ```
+ * Range: bytes=0-499        前500个字节
+ * Range: bytes=500-         从第500个字节到结尾
+ * Range: bytes=-500         最后500个字节
+ * Range: bytes=0-99,200-299 多个范围（响应为 multipart/byteranges）
+ * ```
+ *
+ * 这就像去图书馆复印书：你不需要复印整本书，只要告诉管理员“复印第10到20页”就行了。
+ */
+
+import crypto from "uncrypto";
+import { textEncoder } from "./encoding";
+
+export interface ByteRange {
+  /** 起始字节（包含） */
+  start: number;
+  /** 结束字节（包含） */
+  end: number;
+}
+
+// 一个请求最多允许的范围数量，超过时忽略 Range 请求头，返回完整内容
+const MAX_RANGES = 16;
+
+/**
+ * 解析`Range`请求头
+ *
+ * @param header - `Range`请求头
+ * @param size - 资源的总字节数
+ * @returns 可以满足的范围列表；所有范围都无法满足时返回 false（416）；
+ *   格式错误、不是`bytes`单位或范围太多时返回 undefined（忽略 Range，返回完整内容）
+ */
+export function parseRangeHeader(
+  header: string,
+  size: number,
+): ByteRange[] | false | undefined {
+  const match = header.match(/^\s*bytes\s*=\s*(.+)$/i);
+  if (!match) {
+    return undefined;
+  }
+  const specs = match[1].split(",");
+  if (specs.length > MAX_RANGES) {
+    return undefined;
+  }
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = spec.trim().match(/^(\d*)-(\d*)$/);
+    if (!parts || (!parts[1] && !parts[2])) {
+      return undefined;
+    }
+    let start: number;
+    let end: number;
+    if (parts[1]) {
+      start = Number(parts[1]);
+      end = parts[2] ? Math.min(Number(parts[2]), size - 1) : size - 1;
+      if (parts[2] && Number(parts[2]) < start) {
+        return undefined;
+      }
+    } else {
+      // 后缀范围：最后 N 个字节
+      start = Math.max(size - Number(parts[2]), 0);
+      end = size - 1;
+      if (Number(parts[2]) === 0) {
+        continue;
+      }
+    }
+    if (start < size) {
+      ranges.push({ start, end });
+    }
+  }
+  return ranges.length > 0 ? ranges : false;
+}
+
+/**
+ * 截取内容中的一段
+ *
+ * 支持字符串、二进制、Blob 和流，其他类型（如 FormData）会先转换成 Blob。
+ */
+export async function sliceBody(
+  body: BodyInit,
+  { start, end }: ByteRange,
+): Promise<BodyInit> {
+  if (typeof body === "string") {
+    return textEncoder.encode(body).subarray(start, end + 1);
+  }
+  if (body instanceof ArrayBuffer) {
+    return new Uint8Array(body, start, end + 1 - start);
+  }
+  if (ArrayBuffer.isView(body)) {
+    return new Uint8Array(
+      body.buffer,
+      body.byteOffset + start,
+      Math.min(end + 1, body.byteLength) - start,
+    );
+  }
+  if (body instanceof ReadableStream) {
+    return sliceStream(body, start, end);
+  }
+  const blob = body instanceof Blob ? body : await new Response(body).blob();
+  // 保留原来的类型，响应的 content-type 会使用 Blob 的类型
+  return blob.slice(start, end + 1, blob.type);
+}
+
+// 跳过流开头的 start 个字节，只保留到 end 为止的内容
+function sliceStream(
+  stream: ReadableStream,
+  start: number,
+  end: number,
+): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array | string, Uint8Array>({
+      transform(chunk, controller) {
+        const bytes =
+          typeof chunk === "string" ? textEncoder.encode(chunk) : chunk;
+        const chunkStart = offset;
+        offset += bytes.byteLength;
+        if (offset > start && chunkStart <= end) {
+          controller.enqueue(
+            bytes.subarray(
+              Math.max(start - chunkStart, 0),
+              Math.min(end + 1 - chunkStart, bytes.byteLength),
+            ),
+          );
+        }
+        if (offset > end) {
+          // 后面的内容都不需要了，结束流（同时取消上游）
+          controller.terminate();
+        }
+      },
+    }),
+  );
+}
+
+/**
+ * 把多个范围拼成`multipart/byteranges`响应体
+ *
+ * 每个部分都有自己的`Content-Type`和`Content-Range`，部分之间用随机生成的分隔符（boundary）隔开：
+ *
+ * ```
+ * --boundary
+ * Content-Type: text/plain
+ * Content-Range: bytes 0-4/100
+ *
+ * hello
+ * --boundary--
+ * ```
+ *
+ * @param parts - 每个范围和它的内容
+ * @param size - 资源的总字节数
+ * @param type - 资源的内容类型
+ * @returns 类型为`multipart/byteranges; boundary=...`的 Blob
+ */
+export function createMultipartByteranges(
+  parts: Array<ByteRange & { body: Blob }>,
+  size: number,
+  type?: string | null,
+): Blob {
+  const boundary = crypto.randomUUID().replace(/-/g, "");
+  const blobParts: BlobPart[] = [];
+  for (const { start, end, body } of parts) {
+    blobParts.push(
+      `--${boundary}\r\n${type ? `Content-Type: ${type}\r\n` : ""}Content-Range: bytes ${start}-${end}/${size}\r\n\r\n`,
+      body,
+      "\r\n",
+    );
+  }
+  blobParts.push(`--${boundary}--\r\n`);
+  return new Blob(blobParts, {
+    type: `multipart/byteranges; boundary=${boundary}`,
+  });
+}
@@ -1,4 +1,9 @@
-import type { SessionConfig } from "../../types";
+import type {
+  Session,
+  SessionConfig,
+  SessionCookieChunksOptions,
+  SessionExpiryReason,
+} from "../../types";
 
 export const kGetSession: unique symbol = /* @__PURE__ */ Symbol.for(
   "h3.internal.session.promise",
@@ -11,3 +16,129 @@ export const DEFAULT_SESSION_COOKIE: SessionConfig["cookie"] = {
   secure: true,
   httpOnly: true,
 };
+
+// 浏览器限制每个 Cookie（包括名称和属性）大约 4096 字节，留出名称和属性的空间
+// Node.js 默认限制所有请求头加起来不超过 16KB，所以总长度默认不超过 12000 个字符
+export const DEFAULT_SESSION_COOKIE_CHUNKS: Required<SessionCookieChunksOptions> =
+  {
+    chunkSize: 3800,
+    maxSize: 12_000,
+    onMaxSize: "warn",
+  };
+
+/**
+ * 获取用来加密新会话的密码
+ *
+ * 配置了多个密码（密码轮换）时，使用最后一个（最新的）密码，并把它的 ID 写进加密后的字符串，
+ * 这样解密时就知道该用哪个密码。
+ */
+export function getSealPassword(
+  password: SessionConfig["password"],
+): string | { id: string; secret: string } {
+  if (typeof password === "string") {
+    return password;
+  }
+  const passwords = normalizePasswords(password);
+  return passwords.at(-1) || "";
+}
+
+/**
+ * 获取用来解密会话的密码表
+ *
+ * 配置了多个密码时，按 ID 查找加密时使用的密码，所以所有列出的密码都能解密。
+ */
+export function getUnsealPassword(
+  password: SessionConfig["password"],
+): string | Record<string, string> {
+  if (typeof password === "string") {
+    return password;
+  }
+  return Object.fromEntries(
+    normalizePasswords(password).map(({ id, secret }) => [id, secret]),
+  );
+}
+
+/**
+ * 检查加密后的会话是否使用旧密码加密，需要用最新的密码重新加密
+ */
+export function isSealedWithOldPassword(
+  password: SessionConfig["password"],
+  sealed: string,
+): boolean {
+  const current = getSealPassword(password);
+  if (typeof current === "string") {
+    return false;
+  }
+  // 加密后的字符串格式为 "Fe26.2*<密码ID>*..."，没有 ID 时就是 "default"
+  return (sealed.split("*")[1] || "default") !== current.id;
+}
+
+function normalizePasswords(
+  password: Exclude<SessionConfig["password"], string>,
+): { id: string; secret: string }[] {
+  return Array.isArray(password)
+    ? password
+    : Object.entries(password).map(([id, secret]) => ({ id, secret }));
+}
+
+/**
+ * 计算会话的过期时间（毫秒时间戳），没有配置`maxAge`和`idleTimeout`时返回 Infinity
+ *
+ * - `maxAge`：从创建时间算起，启用`rolling`时从最后访问时间算起
+ * - `idleTimeout`：从最后访问时间算起
+ */
+export function getSessionExpiresAt(
+  config: SessionConfig,
+  session: Partial<Session>,
+): number {
+  // 没有创建时间的会话视为已经过期
+  const createdAt = session.createdAt || Number.NEGATIVE_INFINITY;
+  const lastAccessedAt = session.lastAccessedAt || createdAt;
+  let expiresAt = Number.POSITIVE_INFINITY;
+  if (config.maxAge) {
+    expiresAt =
+      (config.rolling ? lastAccessedAt : createdAt) + config.maxAge * 1000;
+  }
+  if (config.idleTimeout) {
+    expiresAt = Math.min(expiresAt, lastAccessedAt + config.idleTimeout * 1000);
+  }
+  return expiresAt;
+}
+
+/**
+ * 检查是否需要更新会话的最后访问时间，并刷新 Cookie 的过期时间
+ *
+ * 只有启用了`rolling`或`idleTimeout`，并且距离上次刷新超过`touchInterval`时才需要，
+ * 避免每个请求都发送`set-cookie`。
+ */
+export function shouldTouchSession(
+  config: SessionConfig,
+  session: Session,
+): boolean {
+  if (!config.rolling && !config.idleTimeout) {
+    return false;
+  }
+  // 默认最多每分钟刷新一次，但不超过会话寿命的一半，否则一直活跃的会话也可能过期
+  const interval =
+    config.touchInterval ??
+    Math.min(
+      60,
+      (config.idleTimeout || Number.POSITIVE_INFINITY) / 2,
+      ((config.rolling && config.maxAge) || Number.POSITIVE_INFINITY) / 2,
+    );
+  const lastAccessedAt = session.lastAccessedAt || session.createdAt;
+  return Date.now() - lastAccessedAt >= interval * 1000;
+}
+
+/**
+ * 根据解密会话时的错误判断原因：过期还是无法解密（被篡改、格式错误或者密码不对）
+ */
+export function getExpiryReason(
+  error: unknown,
+): Exclude<SessionExpiryReason, "missing"> {
+  const message = (error as Error | undefined)?.message;
+  // "Expired seal" 来自 iron-crypto 的 ttl 检查，"Session expired!" 来自 unsealSession
+  return message === "Expired seal" || message === "Session expired!"
+    ? "expired"
+    : "tampered";
+}
@@ -1,23 +1,45 @@
-import type { ValidateFunction } from "../../types";
+import type {
+  StandardSchemaV1,
+  StandardSchemaV1Result,
+  ValidateFunction,
+  ValidationIssue,
+  Validator,
+} from "../../types";
 import { createError } from "../../error";
 
-// TODO: Consider using similar method of typeschema for external library compatibility
-// https://github.com/decs/typeschema/blob/v0.1.3/src/assert.ts
-
 /**
- * Validates the given data using the provided validation function.
+ * Validates the given data using the provided validation function or Standard Schema.
  * @template T The expected type of the validated data.
  * @param data The data to validate.
- * @param fn The validation function to use - can be async.
+ * @param fn The validation function to use - can be async - or a Standard Schema object (`~standard.validate`).
  * @returns A Promise that resolves with the validated data if it passes validation, meaning the validation function does not throw and returns a value other than false.
- * @throws {ValidationError} If the validation function returns false or throws an error.
+ * @throws {ValidationError} If the validation function returns false or throws an error, or the schema reports issues. `data.issues` of the error contains the normalized `{ path, message }` issues.
  */
 export async function validateData<T>(
   data: unknown,
-  fn: ValidateFunction<T>,
+  fn: Validator<T>,
 ): Promise<T> {
+  // Checked first as some schemas (e.g. ArkType) are also callable
+  if ("~standard" in fn) {
+    let result: StandardSchemaV1Result<T>;
+    try {
+      result = await (fn as StandardSchemaV1<unknown, T>)["~standard"].validate(
+        data,
+      );
+    } catch (error) {
+      // A schema throwing instead of reporting issues is still a validation failure
+      throw createValidationError(error);
+    }
+    if (result.issues) {
+      throw createValidationError({
+        message: result.issues.map((issue) => issue.message).join(", "),
+        issues: result.issues,
+      });
+    }
+    return result.value;
+  }
   try {
-    const res = await fn(data);
+    const res = await (fn as ValidateFunction<T>)(data);
     if (res === false) {
       throw createValidationError();
     }
@@ -31,11 +53,29 @@ export async function validateData<T>(
 }
 
 function createValidationError(validateError?: any) {
+  const message = validateError?.message || "Validation Error";
+  // Errors of validation libraries (e.g. ZodError) usually carry an `issues` array
+  const issues: ValidationIssue[] = Array.isArray(validateError?.issues)
+    ? validateError.issues.map((issue: any) => normalizeIssue(issue))
+    : [{ path: [], message }];
   throw createError({
     status: 400,
     statusMessage: "Validation Error",
-    message: validateError?.message || "Validation Error",
-    data: validateError,
+    message,
+    data: { issues },
     cause: validateError,
   });
 }
+
+function normalizeIssue(issue: any): ValidationIssue {
+  return {
+    path: Array.isArray(issue?.path)
+      ? issue.path.map((segment: any) =>
+          typeof segment === "object" && segment !== null
+            ? segment.key
+            : segment,
+        )
+      : [],
+    message: String(issue?.message || "Validation Error"),
+  };
+}
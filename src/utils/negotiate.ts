@@ -0,0 +1,161 @@
+/**
+ * 内容协商工具
+ *
+ * 同一个资源可以有不同的“做法”：JSON、HTML、CSV，中文或英文，gzip压缩或不压缩……
+ * 浏览器会通过`Accept`、`Accept-Language`、`Accept-Charset`和`Accept-Encoding`请求头告诉服务器它更喜欢哪一种，
+ * 这些函数帮你根据这些请求头选出最合适的一种。
+ *
+ * 想象一下：
+ * 顾客说“我最想要微辣，中辣也可以，千万不要特辣”，服务员看看厨房能做哪几种口味，
+ * 然后选出顾客最满意的那一种。如果厨房做的顾客都不要，就只能告诉顾客“抱歉，做不了”（406）。
+ */
+
+import type { H3Event } from "../types";
+import { createError } from "../error";
+import {
+  appendVary,
+  getAcceptedEncodings,
+  matchLanguage,
+  matchMediaType,
+  matchToken,
+  parseAcceptHeader,
+  sortByAccept,
+  type AcceptMatcher,
+} from "./internal/negotiate";
+
+/**
+ * 根据`Accept`请求头选择响应的格式
+ *
+ * 传入一个以媒体类型为键、生成响应的函数为值的对象，会根据`Accept`请求头中的`q`值和通配符（如`text/*`）
+ * 选出最合适的类型并调用对应的函数。选中的类型会被设置为`content-type`响应头（如果还没有设置），
+ * 同时会给`vary`响应头加上`accept`，让缓存知道响应会随着`Accept`变化。
+ *
+ * 没有`Accept`请求头时使用第一个类型。
+ *
+ * @example
+ * app.get("/users", (event) => {
+ *   const users = [{ id: 1, name: "小明" }];
+ *   return negotiate(event, {
+ *     "application/json": () => users,
+ *     "text/html": () => `<ul>${users.map((u) => `<li>${u.name}</li>`).join("")}</ul>`,
+ *     "text/csv": () => users.map((u) => `${u.id},${u.name}`).join("\n"),
+ *   });
+ * });
+ *
+ * @param event H3事件对象
+ * @param handlers 媒体类型到响应生成函数的映射，对象中的顺序就是服务器的偏好顺序
+ * @throws 没有任何类型可以接受时抛出406 Not Acceptable错误
+ * @returns 选中的函数的返回值
+ */
+export function negotiate<Handlers extends Record<string, () => unknown>>(
+  event: H3Event,
+  handlers: Handlers,
+): ReturnType<Handlers[keyof Handlers]> {
+  const type = negotiateType(event, Object.keys(handlers));
+  if (!type) {
+    throw createError({
+      statusCode: 406,
+      statusMessage: "Not Acceptable",
+      data: { accept: Object.keys(handlers) },
+    });
+  }
+  if (!event.response.headers.has("content-type")) {
+    event.response.headers.set("content-type", type);
+  }
+  return handlers[type]() as ReturnType<Handlers[keyof Handlers]>;
+}
+
+/**
+ * 根据`Accept`请求头从可用的媒体类型中选出最合适的一个
+ *
+ * 会给`vary`响应头加上`accept`。
+ *
+ * @example
+ * const type = negotiateType(event, ["application/json", "text/html"]);
+ *
+ * @param event H3事件对象
+ * @param available 服务器能提供的媒体类型，按服务器的偏好排序
+ * @returns 最合适的类型，没有可以接受的类型时返回undefined
+ */
+export function negotiateType(
+  event: H3Event,
+  available: string[],
+): string | undefined {
+  return _negotiate(event, "accept", available, matchMediaType)[0];
+}
+
+/**
+ * 根据`Accept-Language`请求头从可用的语言中选出最合适的一个
+ *
+ * `zh`可以匹配`zh-CN`，`*`可以匹配任何语言。会给`vary`响应头加上`accept-language`。
+ *
+ * @example
+ * const lang = negotiateLanguage(event, ["en", "zh-CN"]) || "en";
+ *
+ * @param event H3事件对象
+ * @param available 服务器能提供的语言，按服务器的偏好排序
+ * @returns 最合适的语言，没有可以接受的语言时返回undefined
+ */
+export function negotiateLanguage(
+  event: H3Event,
+  available: string[],
+): string | undefined {
+  return _negotiate(event, "accept-language", available, matchLanguage)[0];
+}
+
+/**
+ * 根据`Accept-Charset`请求头从可用的字符集中选出最合适的一个
+ *
+ * 会给`vary`响应头加上`accept-charset`。
+ *
+ * @example
+ * const charset = negotiateCharset(event, ["utf-8", "iso-8859-1"]);
+ *
+ * @param event H3事件对象
+ * @param available 服务器能提供的字符集，按服务器的偏好排序
+ * @returns 最合适的字符集，没有可以接受的字符集时返回undefined
+ */
+export function negotiateCharset(
+  event: H3Event,
+  available: string[],
+): string | undefined {
+  return _negotiate(event, "accept-charset", available, matchToken)[0];
+}
+
+/**
+ * 根据`Accept-Encoding`请求头从可用的编码（压缩方式）中选出最合适的一个
+ *
+ * `identity`（不压缩）总是可以接受的，除非请求头中明确写了`identity;q=0`或`*;q=0`。
+ * 没有`Accept-Encoding`请求头时只接受`identity`。会给`vary`响应头加上`accept-encoding`。
+ *
+ * @example
+ * const encoding = negotiateEncoding(event, ["br", "gzip", "identity"]);
+ *
+ * @param event H3事件对象
+ * @param available 服务器能提供的编码，按服务器的偏好排序
+ * @returns 最合适的编码，没有可以接受的编码时返回undefined
+ */
+export function negotiateEncoding(
+  event: H3Event,
+  available: string[],
+): string | undefined {
+  appendVary(event.response.headers, "accept-encoding");
+  return getAcceptedEncodings(
+    event.request.headers.get("accept-encoding"),
+    available,
+  )[0];
+}
+
+function _negotiate(
+  event: H3Event,
+  headerName: string,
+  available: string[],
+  match: AcceptMatcher,
+): string[] {
+  appendVary(event.response.headers, headerName);
+  const header = event.request.headers.get(headerName);
+  if (!header) {
+    return available;
+  }
+  return sortByAccept(parseAcceptHeader(header), available, match);
+}
@@ -0,0 +1,244 @@
+/**
+ * OpenAPI文档生成模块
+ *
+ * 这个文件可以根据应用的路由表生成OpenAPI 3.1文档。
+ *
+ * 什么是OpenAPI？
+ * OpenAPI是一种描述HTTP接口的标准格式，很多工具（如Swagger UI、代码生成器）都能读懂它。
+ *
+ * 想象一下：
+ * 路由表就像是餐厅后厨的点单系统，只有厨师看得懂；
+ * OpenAPI文档就像是印给客人看的菜单，写清楚了每道菜需要什么、会端上来什么。
+ *
+ * 路由的说明、标签以及请求/响应的结构通过注册路由时的`openapi`详情提供，
+ * 结构可以是Standard Schema（如Zod、Valibot、ArkType）或者普通的JSON Schema。
+ */
+
+import type {
+  EventHandler,
+  H3,
+  JSONSchema,
+  OpenAPIDocument,
+  OpenAPIOptions,
+  OpenAPISchema,
+  RouteOpenAPI,
+  StandardSchemaV1,
+} from "../types";
+
+/**
+ * 根据应用的路由表生成OpenAPI 3.1文档
+ *
+ * 只有指定了HTTP方法的路由会被包含在文档中，中间件和匹配所有方法的路由会被忽略。
+ * 子应用（包括通过`withBase`挂载的）里的路由也会被包含，并带上完整路径。
+ *
+ * @example
+ * app.get("/users/:id", getUser, {
+ *   openapi: { summary: "Get user", tags: ["users"], responses: { 200: { schema: userSchema } } },
+ * });
+ * const doc = generateOpenAPI(app, { info: { title: "My API", version: "1.0.0" } });
+ *
+ * @param app H3应用实例
+ * @param options 文档选项
+ * @returns OpenAPI文档对象
+ */
+export function generateOpenAPI(
+  app: H3,
+  options: OpenAPIOptions = {},
+): OpenAPIDocument {
+  const paths: OpenAPIDocument["paths"] = {};
+
+  for (const route of app.routes()) {
+    // 中间件和匹配所有方法的路由没法对应到具体的接口
+    if (route.middleware || !route.method) {
+      continue;
+    }
+    const { path, params } = _toOpenAPIPath(route.route);
+    const openapi: RouteOpenAPI = route.openapi || {};
+
+    // 路径参数：每个路径参数都是必需的
+    const paramsSchema = _toJSONSchema(openapi.params, "input", options);
+    const parameters = params.map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: _propertySchema(paramsSchema, name) || { type: "string" },
+    }));
+
+    // 查询参数：从对象结构的属性中生成
+    const querySchema = _toJSONSchema(openapi.query, "input", options);
+    const queryProperties = (querySchema?.properties || {}) as Record<
+      string,
+      JSONSchema
+    >;
+    const queryRequired = (querySchema?.required || []) as string[];
+    for (const name in queryProperties) {
+      parameters.push({
+        name,
+        in: "query",
+        required: queryRequired.includes(name),
+        schema: queryProperties[name],
+      });
+    }
+
+    const operation: Record<string, unknown> = {
+      operationId: openapi.operationId || route.name,
+      summary: openapi.summary,
+      description: openapi.description,
+      tags: openapi.tags,
+      deprecated: openapi.deprecated,
+      parameters: parameters.length > 0 ? parameters : undefined,
+    };
+
+    // 请求体：默认是JSON
+    if (openapi.body) {
+      operation.requestBody = {
+        required: true,
+        content: {
+          "application/json": {
+            schema: _toJSONSchema(openapi.body, "input", options),
+          },
+        },
+      };
+    }
+
+    // 响应：按状态码列出
+    if (openapi.responses) {
+      const responses: Record<string, unknown> = {};
+      for (const [status, response] of Object.entries(openapi.responses)) {
+        responses[status] = _removeUndefined({
+          description: response.description || "",
+          content: response.schema
+            ? {
+                [response.contentType || "application/json"]: {
+                  schema: _toJSONSchema(response.schema, "output", options),
+                },
+              }
+            : undefined,
+        });
+      }
+      operation.responses = responses;
+    }
+
+    if (!paths[path]) {
+      paths[path] = {};
+    }
+    paths[path][route.method.toLowerCase()] = _removeUndefined(operation);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "H3 API",
+      version: "1.0.0",
+      ...options.info,
+    },
+    servers: options.servers,
+    paths,
+  };
+}
+
+/**
+ * 创建一个返回OpenAPI文档的事件处理器
+ *
+ * 文档在每次请求时根据当前的路由表生成，所以之后注册的路由也会出现在文档中。
+ *
+ * @example
+ * app.get("/openapi.json", defineOpenAPIHandler(app, { info: { title: "My API" } }));
+ *
+ * @param app H3应用实例
+ * @param options 文档选项
+ * @returns 事件处理器
+ */
+export function defineOpenAPIHandler(
+  app: H3,
+  options?: OpenAPIOptions,
+): EventHandler<any, OpenAPIDocument> {
+  return () => generateOpenAPI(app, options);
+}
+
+/**
+ * 把rou3的路由路径转换成OpenAPI的路径模板
+ *
+ * 例如："/users/:id" => "/users/{id}"，"/files/**" => "/files/{_}"
+ */
+function _toOpenAPIPath(route: string) {
+  const params: string[] = [];
+  let unnamedIndex = 0;
+  const segments = route.split("/").map((segment) => {
+    if (segment.startsWith("**")) {
+      const name = segment.split(":")[1] || "_";
+      params.push(name);
+      return `{${name}}`;
+    }
+    if (segment === "*") {
+      const name = `_${unnamedIndex++}`;
+      params.push(name);
+      return `{${name}}`;
+    }
+    return segment.replace(/:(\w+)/g, (_, name) => {
+      params.push(name);
+      return `{${name}}`;
+    });
+  });
+  return { path: segments.join("/") || "/", params };
+}
+
+// Standard JSON Schema规范在`~standard`上增加的转换方法
+interface StandardJSONSchemaProps {
+  jsonSchema?: {
+    input?: (options: { target: string }) => JSONSchema;
+    output?: (options: { target: string }) => JSONSchema;
+  };
+}
+
+/**
+ * 把Standard Schema或JSON Schema转换成JSON Schema
+ */
+function _toJSONSchema(
+  schema: OpenAPISchema | undefined,
+  io: "input" | "output",
+  options: OpenAPIOptions,
+): JSONSchema | undefined {
+  if (!schema) {
+    return undefined;
+  }
+  // 普通的JSON Schema直接使用
+  if (!("~standard" in schema)) {
+    return schema as JSONSchema;
+  }
+  const standardSchema = schema as StandardSchemaV1 & Record<string, unknown>;
+  const converted = options.toJSONSchema?.(standardSchema, io);
+  if (converted) {
+    return converted;
+  }
+  // Standard JSON Schema规范
+  const standardProps: StandardSchemaV1["~standard"] & StandardJSONSchemaProps =
+    standardSchema["~standard"];
+  const convert =
+    "jsonSchema" in standardProps ? standardProps.jsonSchema?.[io] : undefined;
+  if (typeof convert === "function") {
+    return convert({ target: "draft-2020-12" });
+  }
+  // 一些库（如ArkType）提供了转换方法
+  for (const method of ["toJSONSchema", "toJsonSchema"]) {
+    const toJSONSchema = standardSchema[method];
+    if (typeof toJSONSchema === "function") {
+      return toJSONSchema.call(standardSchema) as JSONSchema;
+    }
+  }
+  // 无法转换时使用空结构（可以匹配任何值）
+  return {};
+}
+
+function _propertySchema(schema: JSONSchema | undefined, name: string) {
+  return (schema?.properties as Record<string, JSONSchema> | undefined)?.[name];
+}
+
+function _removeUndefined<T extends Record<string, unknown>>(obj: T): T {
+  for (const key in obj) {
+    if (obj[key] === undefined) {
+      delete obj[key];
+    }
+  }
+  return obj;
+}
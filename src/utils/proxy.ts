@@ -38,6 +38,8 @@ import {
 } from "./internal/proxy";
 // 导入空对象工具
 import { EmptyObject } from "./internal/obj";
+// 导入读取请求体（带大小限制）的工具函数
+import { getMaxBodySize, readBodyBytes } from "./internal/body";
 
 /**
  * 将传入的请求代理到目标 URL
@@ -61,8 +63,12 @@ export async function proxyRequest(
       body = event.request.body;  // 使用原始请求体流
       duplex = "half";  // 设置为半双工模式，允许流式传输
     } else {
-      // 否则，将请求体完全读取为 ArrayBuffer
-      body = await event.request.arrayBuffer();  // 将整个请求体读入内存
+      // 否则，将请求体完全读入内存
+      // 读取时会检查大小限制（opts.maxBodySize 或应用配置中的 maxBodySize），超过时返回 413
+      body = await readBodyBytes(
+        event,
+        getMaxBodySize(event, opts.maxBodySize),
+      );
     }
   }
 
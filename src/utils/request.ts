@@ -11,7 +11,7 @@ import { createError } from "../error";
 import type {
   HTTPMethod,
   InferEventInput,
-  ValidateFunction,
+  Validator,
   H3Event,
 } from "../types";
 import { parseQuery } from "./internal/query";
@@ -49,6 +49,7 @@ export function getQuery<
  * 这个函数可以帮我们检查这个条件是否满足。如果不满足，它会告诉我们出错了。
  * 
  * 你可以使用简单的函数或者像`zod`这样的库来定义验证规则。
+ * 验证失败时会抛出400错误，错误的`data`是统一的`{ issues: [{ path, message }] }`格式。
  *
  * @example
  * app.use("/", async (event) => {
@@ -67,12 +68,17 @@ export function getQuery<
  *     }).parse,
  *   );
  * });
+ * @example
+ * // 也可以直接传入实现了Standard Schema的对象（Zod、Valibot、ArkType等），返回类型会自动推断
+ * app.use("/", async (event) => {
+ *   const query = await getValidatedQuery(event, z.object({ key: z.string() }));
+ * });
  */
 export function getValidatedQuery<
   T,
   Event extends H3Event = H3Event,
   _T = InferEventInput<"query", Event, T>,
->(event: Event, validate: ValidateFunction<_T>): Promise<_T> {
+>(event: Event, validate: Validator<_T>): Promise<_T> {
   const query = getQuery(event);
   return validateData(query, validate);
 }
@@ -121,6 +127,7 @@ export function getRouterParams(
  * 如果`decode`选项为`true`，它会使用`decodeURI`解码匹配的路由参数。
  * 
  * 你可以使用简单的函数或者像`zod`这样的库来定义验证规则。
+ * 验证失败时会抛出400错误，错误的`data`是统一的`{ issues: [{ path, message }] }`格式。
  *
  * @example
  * app.use("/", async (event) => {
@@ -139,6 +146,11 @@ export function getRouterParams(
  *     }).parse,
  *   );
  * });
+ * @example
+ * // 也可以直接传入实现了Standard Schema的对象（Zod、Valibot、ArkType等），返回类型会自动推断
+ * app.use("/", async (event) => {
+ *   const params = await getValidatedRouterParams(event, z.object({ key: z.string() }));
+ * });
  */
 export function getValidatedRouterParams<
   T,
@@ -146,7 +158,7 @@ export function getValidatedRouterParams<
   _T = InferEventInput<"routerParams", Event, T>,
 >(
   event: Event,
-  validate: ValidateFunction<_T>,
+  validate: Validator<_T>,
   opts: { decode?: boolean } = {},
 ): Promise<_T> {
   const routerParams = getRouterParams(event, opts);
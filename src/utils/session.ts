@@ -16,16 +16,44 @@
  * 2. 更新会话数据 (updateSession)
  * 3. 加密和解密会话数据 (sealSession, unsealSession)
  * 4. 清除会话 (clearSession)
+ * 5. 服务端会话存储 (createMemorySessionStore)
+ * 6. 重新生成会话ID (regenerateSession)
+ * 
+ * 浏览器限制每个Cookie大约4KB，加密后的会话太长时会被浏览器直接丢弃。
+ * 所以太长的会话会自动拆分成多个Cookie（如"h3.0"、"h3.1"），读取时再拼起来，
+ * 就像一封信太长，就分成几页写，收信人按页码拼起来读。
+ * 
+ * 默认情况下，整个会话（包括数据）都加密后放在Cookie里，就像把会员资料全部写在会员卡上。
+ * 配置了store之后，会话数据保存在服务器上，Cookie里只有加密后的会话ID，就像会员卡上只写编号，
+ * 资料都放在前台的档案柜里：卡片不会越写越满，前台也可以随时作废某张卡。
  */
 
 // 导入我们需要的类型和函数
-import type { H3Event, Session, SessionConfig, SessionData } from "../types";
+import type {
+  H3Event,
+  Session,
+  SessionConfig,
+  SessionData,
+  SessionStore,
+  MemorySessionStoreOptions,
+  RegenerateSessionOptions,
+  SessionExpiryReason,
+} from "../types";
+import type { CookieSerializeOptions } from "cookie-es";
 import { seal, unseal, defaults as sealDefaults } from "./internal/iron-crypto";
-import { getCookie, setCookie } from "./cookie";
+import { deleteCookie, getCookie, parseCookies, setCookie } from "./cookie";
+import { createError } from "../error";
 import {
   DEFAULT_SESSION_NAME,      // 默认的会话名称
   DEFAULT_SESSION_COOKIE,    // 默认的会话Cookie设置
+  DEFAULT_SESSION_COOKIE_CHUNKS, // 默认的Cookie分块设置
   kGetSession,               // 内部使用的符号，用于获取会话
+  getSealPassword,           // 获取加密用的密码（密码轮换时是最新的密码）
+  getUnsealPassword,         // 获取解密用的密码表
+  isSealedWithOldPassword,   // 检查会话是否用旧密码加密
+  getSessionExpiresAt,       // 计算会话的过期时间
+  getExpiryReason,           // 判断会话无法使用的原因
+  shouldTouchSession,        // 检查是否需要刷新会话的过期时间
 } from "./internal/session";
 import { EmptyObject } from "./internal/obj";
 
@@ -39,7 +67,9 @@ import { EmptyObject } from "./internal/obj";
  * - id: 获取会话的唯一标识符
  * - data: 获取会话中存储的数据
  * - update: 更新会话数据
+ * - expiryReason: 创建了新会话时，原来的会话无法使用的原因
  * - clear: 清除会话
+ * - regenerate: 重新生成会话ID
  * 
  * @param event H3事件对象，包含了HTTP请求的所有信息
  * @param config 会话配置，包括名称、密码、过期时间等
@@ -68,6 +98,13 @@ export async function useSession<T extends SessionData = SessionData>(
     get data() {
       return (event.context.sessions?.[sessionName]?.data || {}) as T;
     },
+
+    // 如果这个请求创建了新的会话，返回原来的会话无法使用的原因
+    // （"missing"：没有会话，"expired"：已过期，"tampered"：无法解密或被篡改）
+    // 这就像是前台告诉你为什么要办一张新卡：没带卡、卡过期了，还是卡是假的
+    get expiryReason() {
+      return event.context.sessions?.[sessionName]?.expiryReason;
+    },
     
     // 更新会话数据
     // 这就像是往箱子里放东西或修改里面的东西
@@ -78,9 +115,16 @@ export async function useSession<T extends SessionData = SessionData>(
     
     // 清除会话
     // 这就像是清空箱子里的所有东西
-    clear: () => {
-      clearSession(event, config);
-      return Promise.resolve(sessionManager);  // 返回管理器本身，方便链式调用
+    clear: async () => {
+      await clearSession(event, config);
+      return sessionManager;  // 返回管理器本身，方便链式调用
+    },
+
+    // 重新生成会话ID（登录或权限变化时使用）
+    // 这就像是换一把新锁，旧钥匙就打不开了
+    regenerate: async (options?: RegenerateSessionOptions) => {
+      await regenerateSession(event, config, options);
+      return sessionManager;  // 返回管理器本身，方便链式调用
     },
   };
   
@@ -139,33 +183,15 @@ export async function getSession<T extends SessionData = SessionData>(
   };
   event.context.sessions![sessionName] = session;  // 将新会话存储在上下文中
 
-  // 尝试加载会话
-  // 这就像是尝试找到你的旧箱子
-  let sealedSession: string | undefined;
-  
-  // 先尝试从请求头中获取会话
-  // 这就像是先检查你是否带着箱子的钥匙
-  if (config.sessionHeader !== false) {
-    // 确定请求头的名称
-    // 这就像是确定钥匙的标签
-    const headerName =
-      typeof config.sessionHeader === "string"
-        ? config.sessionHeader.toLowerCase()  // 如果指定了头名称，使用它
-        : `x-${sessionName.toLowerCase()}-session`;  // 否则使用默认格式
-    
-    // 获取请求头的值
-    // 这就像是查看钥匙上的编号
-    const headerValue = event.request.headers.get(headerName);
-    if (typeof headerValue === "string") {
-      sealedSession = headerValue;  // 如果找到了，保存它
-    }
-  }
-  
-  // 如果请求头中没有找到，尝试从Cookie中获取
-  // 这就像是：如果你没带钥匙，我们看看你的口袋里有没有备用钥匙
-  if (!sealedSession) {
-    sealedSession = getCookie(event, sessionName);
-  }
+  // 尝试从请求头或Cookie中获取加密的会话
+  // 这就像是尝试找到你的旧箱子的钥匙
+  const sealedSession = getSealedSession(event, config);
+
+  // 记录原来的会话无法使用的原因，创建新会话时会用到
+  // 这就像是记下为什么要给你办一张新卡
+  let expiryReason: SessionExpiryReason = sealedSession
+    ? "tampered"
+    : "missing";
   
   // 如果找到了加密的会话数据
   // 这就像是：如果找到了钥匙，我们试着打开箱子
@@ -173,11 +199,29 @@ export async function getSession<T extends SessionData = SessionData>(
     // 解密会话数据
     // 这就像是用钥匙打开箱子，看看里面有什么
     const promise = unsealSession(event, config, sealedSession)
-      .catch(() => {})  // 如果解密失败，忽略错误
-      .then((unsealed) => {
+      .catch((error) => {
+        // 如果解密失败，记录原因（过期还是被篡改），然后创建新的会话
+        expiryReason = getExpiryReason(error);
+      })
+      .then(async (unsealed) => {
+        // 使用服务端存储时，解密出来的只有会话ID，数据要从存储中读取
+        // 存储中已经没有这个会话（过期或者被删除）时，会创建一个新的会话
+        // 这就像是拿着会员卡上的编号去档案柜里找资料
+        let loaded = unsealed;
+        if (config.store && unsealed?.id) {
+          const stored = await config.store.get(unsealed.id);
+          // 最后访问时间保存在Cookie里，不在存储中
+          loaded = stored && {
+            ...stored,
+            lastAccessedAt: unsealed.lastAccessedAt,
+          };
+          if (!stored) {
+            expiryReason = "expired";
+          }
+        }
         // 将解密后的数据合并到会话对象中
         // 这就像是把箱子里的东西整理好
-        Object.assign(session, unsealed);
+        Object.assign(session, loaded);
         // 删除正在加载的标记
         // 这就像是表示箱子已经准备好了
         delete event.context.sessions![sessionName][kGetSession];
@@ -188,6 +232,21 @@ export async function getSession<T extends SessionData = SessionData>(
     // 这就像是告诉别人：箱子正在被整理，请稍等
     event.context.sessions![sessionName][kGetSession] = promise;
     await promise;  // 等待解密完成
+
+    // 如果会话是用旧密码加密的，用最新的密码重新加密，这样旧密码就可以逐步停用
+    // 这就像是换锁之后，老顾客下次来的时候顺便给他换一把新钥匙
+    if (session.id && isSealedWithOldPassword(config.password, sealedSession)) {
+      await updateSession(event, config);
+    } else if (session.id && shouldTouchSession(config, session)) {
+      // 启用了rolling或idleTimeout时，更新最后访问时间并刷新Cookie的过期时间
+      // 为了避免每个请求都发送set-cookie，距离上次刷新超过touchInterval才会刷新
+      // 这就像是老顾客每次来的时候，会员卡的有效期都会顺延
+      session.lastAccessedAt = Date.now();
+      if (config.store && config.rolling) {
+        await config.store.touch(session.id, config.maxAge);
+      }
+      await setSessionCookie(event, config, session);
+    }
   }
 
   // 如果没有找到会话或解密失败，创建一个新的会话
@@ -200,6 +259,9 @@ export async function getSession<T extends SessionData = SessionData>(
     // 设置创建时间为当前时间
     // 这就像是记录箱子的制造日期
     session.createdAt = Date.now();
+    // 记录原来的会话无法使用的原因
+    // 这就像是在新卡的备注里写上为什么换卡
+    session.expiryReason = expiryReason;
     // 更新会话，将其保存到Cookie中
     // 这就像是把新箱子放到架子上，并给你一把钥匙
     await updateSession(event, config);
@@ -210,6 +272,66 @@ export async function getSession<T extends SessionData = SessionData>(
   return session;
 }
 
+/**
+ * 重新生成当前请求的会话ID
+ * 
+ * 想象一下，这个函数就像是一个锁匠，在你升级成VIP会员时给你的箱子换一把新锁。
+ * 箱子里的东西还在（也可以选择清空），但是以前的钥匙再也打不开它了。
+ * 
+ * 用户登录或者权限变化时应该调用这个函数，防止会话固定攻击（Session Fixation）：
+ * 攻击者先拿到一个会话ID并设法让用户使用它，用户登录后，攻击者就可以用同一个ID冒充用户。
+ * 换了新的ID之后，攻击者手里的旧ID就没用了。
+ * 
+ * 新会话会使用新的ID和创建时间，并重新加密写入Cookie；配置了store时，旧的会话记录会从存储中删除。
+ * 
+ * @example
+ * app.post("/login", async (event) => {
+ *   const session = await useSession(event, { password });
+ *   // ...验证用户名和密码
+ *   await session.regenerate();
+ *   await session.update({ userId: user.id });
+ * });
+ * 
+ * @param event H3事件对象，包含了HTTP请求的所有信息
+ * @param config 会话配置，包括名称、密码、过期时间等
+ * @param options 选项，如是否保留会话数据（默认保留）
+ * @returns 新的会话对象
+ */
+export async function regenerateSession<T extends SessionData = SessionData>(
+  event: H3Event,      // H3事件对象
+  config: SessionConfig,  // 会话配置
+  options: RegenerateSessionOptions = {},  // 选项
+): Promise<Session<T>> {
+  // 获取会话名称，如果没有指定就使用默认名称
+  // 这就像是确定要换锁的箱子
+  const sessionName = config.name || DEFAULT_SESSION_NAME;
+
+  // 获取当前会话（如果还没有加载，会先加载）
+  // 这就像是先找到你的箱子
+  const oldSession = await getSession<T>(event, config);
+
+  // 创建一个新的会话对象，使用新的ID和创建时间
+  // 不修改旧的会话对象，这样其他地方拿到的旧会话不会突然变成新的ID
+  // 这就像是换一个新箱子，把东西搬过去（或者不搬）
+  const session: Session<T> = {
+    id: config.generateId?.() ?? (config.crypto || crypto).randomUUID(),
+    createdAt: Date.now(),
+    data:
+      options.keepData === false ? new EmptyObject() : { ...oldSession.data },
+  };
+  event.context.sessions![sessionName] = session;
+
+  // 使用服务端存储时，删除旧的会话记录，旧的Cookie就无法再使用了
+  // 这就像是把旧锁拆掉，旧钥匙就没用了
+  if (config.store && oldSession.id && oldSession.id !== session.id) {
+    await config.store.delete(oldSession.id);
+  }
+
+  // 保存新的会话，并重新加密写入Cookie
+  // 这就像是把新钥匙交给你
+  return updateSession<T>(event, config);
+}
+
 /**
  * 会话更新类型
  * 可以是一个部分数据对象，或者一个函数，该函数接收旧数据并返回新数据
@@ -260,26 +382,26 @@ export async function updateSession<T extends SessionData = SessionData>(
     Object.assign(session.data, update);
   }
 
-  // 如果启用了Cookie，加密会话并存储在Cookie中
-  // 这就像是锁上箱子，并给你一把钥匙（Cookie）
-  if (config.cookie !== false) {
-    // 加密会话数据
-    // 这就像是将箱子锁上，只有有钥匙的人才能打开
-    const sealed = await sealSession(event, config);
-    
-    // 将加密后的会话数据存储在Cookie中
-    // 这就像是给你一把钥匙，上面有箱子的编号
-    setCookie(event, sessionName, sealed, {
-      ...DEFAULT_SESSION_COOKIE,  // 使用默认的Cookie设置
-      // 设置过期时间，如果配置了maxAge
-      // 这就像是设置钥匙的有效期
-      expires: config.maxAge
-        ? new Date(session.createdAt + config.maxAge * 1000)  // 创建时间 + 最大寿命
-        : undefined,  // 如果没有设置maxAge，则不设置过期时间
-      ...config.cookie,  // 合并用户提供的Cookie设置
-    });
+  // 启用了rolling或idleTimeout时，保存会话也算一次访问
+  // 这就像是你往箱子里放东西，也说明你还在用这个箱子
+  if (config.rolling || config.idleTimeout) {
+    session.lastAccessedAt = Date.now();
+  }
+
+  // 使用服务端存储时，把会话保存到存储中
+  // 这就像是把更新后的资料放回档案柜
+  if (config.store) {
+    await config.store.set(
+      session.id,
+      { id: session.id, createdAt: session.createdAt, data: session.data },
+      config.maxAge,
+    );
   }
 
+  // 加密会话并存储在Cookie中
+  // 这就像是锁上箱子，并给你一把钥匙（Cookie）
+  await setSessionCookie(event, config, session);
+
   // 返回更新后的会话对象
   // 这就像是：现在你的箱子已经更新好了，给你
   return session;
@@ -292,6 +414,7 @@ export async function updateSession<T extends SessionData = SessionData>(
  * 这样，只有持有正确钥匙（密码）的人才能打开箱子，而且可以验证箱子是否被篡改过。
  * 
  * 这个函数使用iron-crypto库来加密和签名会话数据，保证会话数据的安全性和完整性。
+ * 配置了store时只加密会话ID和创建时间，数据保存在服务端存储中。
  * 
  * @param event H3事件对象，包含了HTTP请求的所有信息
  * @param config 会话配置，包括密码、最大寿命等
@@ -313,11 +436,24 @@ export async function sealSession<T extends SessionData = SessionData>(
 
   // 使用iron-crypto库的seal函数加密会话数据
   // 这就像是用特殊的锁和安全印章锁住箱子
-  const sealed = await seal(session, config.password, {
+  // 只加密需要保存的字段，expiryReason等只在当前请求中有效的字段不会写进Cookie
+  // 使用服务端存储时，Cookie里只需要会话ID（创建时间和最后访问时间用于检查是否过期）
+  const sealed = await seal(
+    {
+      id: session.id,
+      createdAt: session.createdAt,
+      lastAccessedAt: session.lastAccessedAt,
+      // 使用服务端存储时，数据保存在存储中，不写进Cookie
+      data: config.store ? undefined : session.data,
+    },
+    // 配置了多个密码时，使用最新的密码加密
+    getSealPassword(config.password),
+    {
     ...sealDefaults,  // 使用默认的加密设置
     ttl: config.maxAge ? config.maxAge * 1000 : 0,  // 设置生存时间（毫秒）
     ...config.seal,  // 合并用户提供的加密设置
-  });
+    },
+  );
 
   // 返回加密后的会话数据
   // 这就像是返回一个已经锁好的箱子，只有持有钥匙的人才能打开
@@ -345,24 +481,19 @@ export async function unsealSession(
 ) {
   // 使用iron-crypto库的unseal函数解密会话数据
   // 这就像是用钥匙打开锁住的箱子，并检查安全印章
-  const unsealed = (await unseal(sealed, config.password, {
+  // 配置了多个密码时，根据加密时使用的密码ID找到对应的密码
+  const unsealed = (await unseal(sealed, getUnsealPassword(config.password), {
     ...sealDefaults,  // 使用默认的解密设置
     ttl: config.maxAge ? config.maxAge * 1000 : 0,  // 设置生存时间（毫秒）
     ...config.seal,  // 合并用户提供的解密设置
   })) as Partial<Session>;
   
-  // 如果配置了最大寿命，检查会话是否过期
+  // 检查会话是否过期（maxAge从创建时间或者最后访问时间算起，idleTimeout从最后访问时间算起）
   // 这就像是检查箱子的使用期限是否到期
-  if (config.maxAge) {
-    // 计算会话的年龄（当前时间 - 创建时间）
-    // 这就像是计算箱子已经使用了多长时间
-    const age = Date.now() - (unsealed.createdAt || Number.NEGATIVE_INFINITY);
-    
-    // 如果会话年龄超过了最大寿命，抛出错误
-    // 这就像是：如果箱子已经过期，则不能使用
-    if (age > config.maxAge * 1000) {
-      throw new Error("Session expired!");
-    }
+  // 如果会话已经过期，抛出错误
+  // 这就像是：如果箱子已经过期，则不能使用
+  if (Date.now() > getSessionExpiresAt(config, unsealed)) {
+    throw new Error("Session expired!");
   }
   
   // 返回解密后的会话数据
@@ -374,7 +505,7 @@ export async function unsealSession(
  * 清除当前请求的会话数据
  * 
  * 想象一下，这个函数就像是一个箱子管理员，负责清空你的箱子并收回钥匙。
- * 它会删除服务器上存储的会话数据，并将Cookie中的会话标识符设置为空。
+ * 它会删除服务器上存储的会话数据（配置了store时也会从存储中删除），并将Cookie中的会话标识符设置为空。
  * 
  * 这个函数通常用于用户退出登录或清除会话状态的情况。
  * 
@@ -382,13 +513,34 @@ export async function unsealSession(
  * @param config 会话配置，包括名称、Cookie设置等
  * @returns 空的Promise，表示清除操作完成
  */
-export function clearSession(
+export async function clearSession(
   event: H3Event,      // H3事件对象
   config: Partial<SessionConfig>,  // 会话配置（可以是部分配置）
 ): Promise<void> {
   // 获取会话名称，如果没有指定就使用默认名称
   // 这就像是确定要清空哪个箱子
   const sessionName = config.name || DEFAULT_SESSION_NAME;
+
+  // 使用服务端存储时，从存储中删除这个会话，之后即使有人拿着旧的Cookie也无法使用
+  // 这个请求还没有加载会话时，从请求头或Cookie中解密出会话ID
+  // 这就像是把档案柜里的资料销毁，旧的会员卡就作废了
+  if (config.store) {
+    const loaded = event.context.sessions?.[sessionName];
+    let id = loaded && (await (loaded[kGetSession] || loaded)).id;
+    const sealed =
+      id || !config.password ? undefined : getSealedSession(event, config);
+    if (sealed) {
+      const unsealed = await unsealSession(
+        event,
+        config as SessionConfig,
+        sealed,
+      ).catch(() => undefined);
+      id = unsealed?.id;
+    }
+    if (id) {
+      await config.store.delete(id);
+    }
+  }
   
   // 如果存在会话，则从上下文中删除它
   // 这就像是清空箱子并从架子上移除
@@ -402,8 +554,219 @@ export function clearSession(
     ...DEFAULT_SESSION_COOKIE,  // 使用默认的Cookie设置
     ...config.cookie,  // 合并用户提供的Cookie设置
   });
-  
-  // 返回一个已解决的空Promise
-  // 这就像是说：“清空工作已完成”
-  return Promise.resolve();
+
+  // 会话被拆分成多个Cookie时，把分块也删除
+  // 这就像是把多页的信全部收回
+  deleteChunkCookies(
+    event,
+    sessionName,
+    { ...DEFAULT_SESSION_COOKIE, ...config.cookie },
+    0,
+  );
+}
+
+/**
+ * 创建一个内存中的会话存储（LRU）
+ * 
+ * 会话保存在当前进程的内存中，超过max个时删除最久没有使用的会话，过期的会话会在读取时删除。
+ * 适合单个进程的应用和开发环境；多个进程或多台服务器时，需要实现一个共享的存储（如Redis）。
+ * 
+ * 这就像是前台的档案柜：柜子满了就把最久没人来查的档案清理掉。
+ * 
+ * @example
+ * const store = createMemorySessionStore({ max: 10_000 });
+ * app.use(async (event) => {
+ *   const session = await useSession(event, { password, store });
+ * });
+ * 
+ * @param options 存储选项，如最多保存的会话数量
+ * @returns 会话存储
+ */
+export function createMemorySessionStore(
+  options: MemorySessionStoreOptions = {},
+): SessionStore {
+  const max = options.max ?? 1000;
+  // Map会记住插入的顺序，最前面的就是最久没有使用的会话
+  const sessions = new Map<string, { session: Session; expires: number }>();
+
+  // 读取一个没有过期的会话，并把它移动到最后（最近使用）
+  const getEntry = (id: string) => {
+    const entry = sessions.get(id);
+    if (!entry) {
+      return undefined;
+    }
+    sessions.delete(id);
+    if (entry.expires <= Date.now()) {
+      return undefined;
+    }
+    sessions.set(id, entry);
+    return entry;
+  };
+
+  const getExpires = (maxAge?: number) =>
+    maxAge ? Date.now() + maxAge * 1000 : Number.POSITIVE_INFINITY;
+
+  return {
+    get(id) {
+      // 返回副本，请求中修改会话数据不会影响存储，直到调用set
+      const entry = getEntry(id);
+      return entry && structuredClone(entry.session);
+    },
+    set(id, session, maxAge) {
+      sessions.delete(id);
+      sessions.set(id, {
+        session: structuredClone(session),
+        expires: getExpires(maxAge),
+      });
+      // 超过数量限制时，删除最久没有使用的会话
+      for (const oldest of sessions.keys()) {
+        if (sessions.size <= max) {
+          break;
+        }
+        sessions.delete(oldest);
+      }
+    },
+    delete(id) {
+      sessions.delete(id);
+    },
+    touch(id, maxAge) {
+      const entry = getEntry(id);
+      if (entry) {
+        entry.expires = getExpires(maxAge);
+      }
+    },
+  };
+}
+
+/**
+ * 加密会话并存储在Cookie中（如果启用了Cookie）
+ * 
+ * Cookie的过期时间和会话的过期时间一致，启用rolling或idleTimeout时会随着访问顺延。
+ * 这就像是给你一把钥匙，钥匙上写着有效期。
+ */
+async function setSessionCookie(
+  event: H3Event,
+  config: SessionConfig,
+  session: Session,
+): Promise<void> {
+  if (config.cookie === false) {
+    return;
+  }
+  const sessionName = config.name || DEFAULT_SESSION_NAME;
+  const sealed = await sealSession(event, config);
+  const expiresAt = getSessionExpiresAt(config, session);
+  const cookieOptions = {
+    ...DEFAULT_SESSION_COOKIE,  // 使用默认的Cookie设置
+    // 没有配置maxAge和idleTimeout时，不设置过期时间（浏览器关闭时删除）
+    expires: Number.isFinite(expiresAt) ? new Date(expiresAt) : undefined,
+    ...config.cookie,  // 合并用户提供的Cookie设置
+  };
+
+  // 没有关闭分块时，检查总长度并在需要时拆分
+  const chunks =
+    config.cookieChunks === false
+      ? undefined
+      : { ...DEFAULT_SESSION_COOKIE_CHUNKS, ...config.cookieChunks };
+  if (chunks && sealed.length > chunks.maxSize) {
+    const message = `[h3] Sealed session "${sessionName}" is ${sealed.length} characters long, exceeding the ${chunks.maxSize} characters limit. Consider storing less data in the session or using a session store.`;
+    if (chunks.onMaxSize === "error") {
+      throw createError({ statusCode: 500, statusMessage: message });
+    }
+    console.warn(message);
+  }
+
+  // 不需要拆分时，写入一个Cookie，并删除以前拆分的Cookie
+  // 这就像是信变短了，一页就写得下，以前多出来的几页要收回
+  if (!chunks || sealed.length <= chunks.chunkSize) {
+    setCookie(event, sessionName, sealed, cookieOptions);
+    deleteChunkCookies(event, sessionName, cookieOptions, 0);
+    return;
+  }
+
+  // 拆分成多个Cookie：name.0、name.1……，并删除不带编号的Cookie和多余的分块
+  let count = 0;
+  for (let i = 0; i < sealed.length; i += chunks.chunkSize) {
+    setCookie(
+      event,
+      `${sessionName}.${count++}`,
+      sealed.slice(i, i + chunks.chunkSize),
+      cookieOptions,
+    );
+  }
+  if (getCookieNames(event).has(sessionName)) {
+    deleteCookie(event, sessionName, { ...cookieOptions, expires: undefined });
+  }
+  deleteChunkCookies(event, sessionName, cookieOptions, count);
+}
+
+/**
+ * 删除编号不小于from的分块Cookie（请求中带来的，或者这个请求中已经设置过的）
+ * 
+ * 这就像是信变短之后，把多出来的几页收回来。
+ */
+function deleteChunkCookies(
+  event: H3Event,
+  sessionName: string,
+  cookieOptions: CookieSerializeOptions,
+  from: number,
+): void {
+  for (const name of getCookieNames(event)) {
+    if (getChunkIndex(sessionName, name) >= from) {
+      deleteCookie(event, name, { ...cookieOptions, expires: undefined });
+    }
+  }
+}
+
+// 请求中带来的Cookie和这个请求中已经设置过的Cookie的名称
+function getCookieNames(event: H3Event): Set<string> {
+  return new Set([
+    ...Object.keys(parseCookies(event)),
+    ...event.response.headers
+      .getSetCookie()
+      .map((cookie) => cookie.slice(0, cookie.indexOf("="))),
+  ]);
+}
+
+// 获取分块Cookie的编号（"h3.2" → 2），不是这个会话的分块时返回-1
+function getChunkIndex(sessionName: string, name: string): number {
+  const suffix = name.startsWith(`${sessionName}.`)
+    ? name.slice(sessionName.length + 1)
+    : "";
+  return /^\d+$/.test(suffix) ? Number(suffix) : -1;
+}
+
+/**
+ * 从请求头或Cookie中获取加密的会话
+ * 
+ * 先检查请求头（如"x-h3-session"，可以用sessionHeader配置），没有时再检查Cookie。
+ * 这就像是先看你手里有没有钥匙，没有的话再看看口袋里有没有备用钥匙。
+ */
+function getSealedSession(
+  event: H3Event,
+  config: Partial<SessionConfig>,
+): string | undefined {
+  const sessionName = config.name || DEFAULT_SESSION_NAME;
+  if (config.sessionHeader !== false) {
+    // 确定请求头的名称：如果指定了头名称就使用它，否则使用默认格式
+    const headerName =
+      typeof config.sessionHeader === "string"
+        ? config.sessionHeader.toLowerCase()
+        : `x-${sessionName.toLowerCase()}-session`;
+    const headerValue = event.request.headers.get(headerName);
+    if (headerValue) {
+      return headerValue;
+    }
+  }
+  const cookie = getCookie(event, sessionName);
+  if (cookie) {
+    return cookie;
+  }
+  // 会话太长时拆分成了多个Cookie，按编号拼起来
+  // 这就像是按页码把几页信拼起来读
+  const cookies = parseCookies(event);
+  let sealed = "";
+  for (let i = 0; cookies[`${sessionName}.${i}`]; i++) {
+    sealed += cookies[`${sessionName}.${i}`];
+  }
+  return sealed || undefined;
 }
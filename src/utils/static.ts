@@ -12,13 +12,29 @@
  */
 
 // 导入我们需要的类型和函数
-import type { H3Event, StaticAssetMeta, ServeStaticOptions } from "../types";
+import type {
+  H3Event,
+  StaticAssetMeta,
+  ServeStaticOptions,
+  ServeStaticDirOptions,
+  StaticDirectoryEntry,
+} from "../types";
 import { createError } from "../error";
 import {
   withLeadingSlash,     // 确保路径以斜杠开头
   withoutTrailingSlash, // 移除路径末尾的斜杠
   getPathname,          // 获取URL的路径部分
 } from "./internal/path";
+import { getAcceptedEncodings } from "./internal/negotiate";
+import { evaluateConditionalRequest, evaluateIfRange } from "./internal/cache";
+import { getMimeType } from "./internal/mime";
+import { renderDirectoryListing } from "./internal/directory-listing";
+import {
+  parseRangeHeader,          // 解析Range请求头
+  sliceBody,                 // 截取内容中的一段
+  createMultipartByteranges, // 拼接多个范围的响应体
+  type ByteRange,
+} from "./internal/range";
 
 /**
  * 根据请求路径动态提供静态资源服务
@@ -32,12 +48,16 @@ import {
  * 3. 如果文件存在，它会设置一些特殊的响应头（如文件类型、大小等）
  * 4. 最后它会返回文件的内容
  * 
- * 这个函数还处理了一些高级功能，如缓存控制（使用ETag和修改时间）
- * 和内容编码（如gzip压缩）。
+ * 这个函数还处理了一些高级功能，如缓存控制（使用ETag和修改时间）、
+ * 内容编码（如gzip压缩）和范围请求（Range，只返回文件的一部分）。
+ * 
+ * 找不到文件时还可以：
+ * - 列出目录里的文件（directoryListing选项，请求的路径是目录且没有索引文件时）
+ * - 返回单页应用的入口页面（spaFallback选项，让前端路由处理"/dashboard/settings"这样的路径）
  * 
  * @param event H3事件对象，包含了HTTP请求的所有信息
  * @param options 静态文件服务的选项，包括如何获取文件元数据和内容
- * @returns 如果成功找到文件，返回文件内容；如果文件未修改，返回空字符串；如果找不到文件且fallthrough为true，返回false
+ * @returns 如果成功找到文件，返回文件内容（范围请求时只返回请求的部分）；如果文件未修改，返回空字符串；如果找不到文件且fallthrough为true，返回false
  */
 export async function serveStatic(
   event: H3Event,                // H3事件对象
@@ -82,6 +102,7 @@ export async function serveStatic(
   // 初始化文件ID和元数据变量
   let id = originalId;  // 最终使用的文件ID
   let meta: StaticAssetMeta | undefined;  // 文件的元数据（如类型、大小等）
+  let isDirectory = false;  // 请求的路径本身是不是目录
 
   // 生成可能的文件路径列表
   // 这就像图书馆管理员准备了多个可能的书名来查找
@@ -97,6 +118,11 @@ export async function serveStatic(
   for (const _id of _ids) {
     // 获取文件的元数据
     const _meta = await options.getMeta(_id);
+    // 目录不能直接发送，继续查找它的索引文件（如"/docs/index.html"）
+    if (_meta?.isDirectory) {
+      isDirectory ||= _id === originalId;
+      continue;
+    }
     // 如果文件存在（有元数据）
     if (_meta) {
       meta = _meta;  // 保存元数据
@@ -105,6 +131,30 @@ export async function serveStatic(
     }
   }
 
+  // 请求的路径是目录，但是没有索引文件：显示目录列表
+  // 这就像书架上没有目录卡片，管理员就把这一格里所有书的书名念给你听
+  if (!meta && isDirectory && options.directoryListing) {
+    const entries = await options.directoryListing.getEntries(originalId);
+    const listing = renderDirectoryListing(event, originalId, entries);
+    return event.request.method === "HEAD" ? "" : listing;
+  }
+
+  // 单页应用：前端路由的路径（如"/dashboard/settings"）没有对应的文件，返回入口页面（如"/index.html"）
+  // 这就像找不到你要的那一页，管理员就把整本书给你，让你自己翻到那一页
+  const spaFallbackId = meta
+    ? undefined
+    : getSPAFallbackId(originalId, options.spaFallback);
+  if (spaFallbackId) {
+    for (const _id of idSearchPaths(spaFallbackId, acceptEncodings, [])) {
+      const _meta = await options.getMeta(_id);
+      if (_meta && !_meta.isDirectory) {
+        meta = _meta;
+        id = _id;
+        break;
+      }
+    }
+  }
+
   // 如果没有找到文件（没有元数据）
   // 这就像图书馆管理员找遍了所有可能的书名，但都没有找到书
   if (!meta) {
@@ -126,42 +176,35 @@ export async function serveStatic(
     event.response.headers.set("etag", meta.etag);
   }
 
-  // 检查浏览器发送的if-none-match头是否与ETag匹配
+  // 如果文件有修改时间，且响应头中还没有设置last-modified，就设置它
+  // 这就像告诉浏览器：“这本书的最后修改日期是...”
+  if (meta.mtime && !event.response.headers.get("last-modified")) {
+    event.response.headers.set(
+      "last-modified",
+      new Date(meta.mtime).toUTCString(),
+    );
+  }
+
+  // 检查浏览器发送的条件头（if-none-match、if-modified-since、if-match等）
   // 这就像浏览器在说：“我已经有这个版本的书了，如果没有新版本就不用给我了”
-  const ifNotMatch =
-    meta.etag && event.request.headers.get("if-none-match") === meta.etag;
-  // 如果匹配（文件没有变化）
-  if (ifNotMatch) {
+  const conditionalStatus = evaluateConditionalRequest(event, {
+    etag: meta.etag,
+    modifiedTime: meta.mtime,
+  });
+  // 如果文件没有变化
+  if (conditionalStatus === 304) {
     // 设置304状态码（未修改）
     event.response.status = 304;
     event.response.statusText = "Not Modified";
     // 返回空字符串，因为浏览器已经有缓存的内容
     return "";
   }
-
-  // 如果文件有修改时间
-  // 这就像书的出版日期，用来判断书是否是最新版本
-  if (meta.mtime) {
-    // 将修改时间转换为Date对象
-    const mtimeDate = new Date(meta.mtime);
-
-    // 获取浏览器发送的if-modified-since头
-    // 这就像浏览器在说：“只给我在这个日期之后修改的书”
-    const ifModifiedSinceH = event.request.headers.get("if-modified-since");
-    // 如果浏览器发送了if-modified-since头，且文件在该日期之后没有修改
-    if (ifModifiedSinceH && new Date(ifModifiedSinceH) >= mtimeDate) {
-      // 设置304状态码（未修改）
-      event.response.status = 304;
-      event.response.statusText = "Not Modified";
-      // 返回空字符串，因为浏览器已经有缓存的内容
-      return "";
-    }
-
-    // 如果响应头中还没有设置last-modified，就设置它
-    // 这就像告诉浏览器：“这本书的最后修改日期是...”
-    if (!event.response.headers.get("last-modified")) {
-      event.response.headers.set("last-modified", mtimeDate.toUTCString());
-    }
+  // 如果浏览器要求的版本和现在的不一样（if-match、if-unmodified-since）
+  if (conditionalStatus === 412) {
+    throw createError({
+      statusMessage: "Precondition Failed",  // 状态消息：前置条件失败
+      statusCode: 412,                      // 状态码：412
+    });
   }
 
   // 如果文件有类型信息且响应头中还没有设置content-type，就设置它
@@ -186,12 +229,44 @@ export async function serveStatic(
     event.response.headers.set("content-length", meta.size + "");
   }
 
+  // 如果知道文件大小，告诉浏览器可以只请求文件的一部分
+  // 这就像告诉你：“这本书可以只复印其中几页”
+  if (meta.size !== undefined) {
+    event.response.headers.set("accept-ranges", "bytes");
+  }
+
   // 如果请求方法是HEAD，只返回头部信息，不返回内容
   // 这就像你只想知道书的信息（如出版日期、页数），而不想真的拿到书
   if (event.request.method === "HEAD") {
     return "";
   }
 
+  // 如果浏览器只要文件的一部分（如视频拖动进度条、断点续传），只返回请求的范围
+  // If-Range 不匹配时说明文件已经变了，忽略 Range 返回完整的文件
+  const rangeHeader = event.request.headers.get("range");
+  if (
+    rangeHeader &&
+    meta.size !== undefined &&
+    meta.size > 0 &&
+    evaluateIfRange(event, { etag: meta.etag, modifiedTime: meta.mtime })
+  ) {
+    const ranges = parseRangeHeader(rangeHeader, meta.size);
+    // 请求的范围都超出了文件大小
+    if (ranges === false) {
+      event.response.headers.set("content-range", `bytes */${meta.size}`);
+      // 错误响应的内容不是这个文件，不能使用文件的大小
+      event.response.headers.delete("content-length");
+      throw createError({
+        statusMessage: "Range Not Satisfiable",  // 状态消息：范围无法满足
+        statusCode: 416,                        // 状态码：416
+      });
+    }
+    // 格式错误的 Range 请求头会被忽略，返回完整的文件
+    if (ranges) {
+      return serveRanges(event, options, id, meta.size, ranges);
+    }
+  }
+
   // 获取文件的实际内容
   // 这就像图书馆管理员最终把书给你
   const contents = await options.getContents(id);
@@ -199,18 +274,372 @@ export async function serveStatic(
   return contents;
 }
 
+/**
+ * 直接从文件系统的目录中提供静态文件服务
+ *
+ * serveStatic需要自己实现getMeta和getContents，一不小心就会出安全问题：
+ * 比如请求`/../../etc/passwd`读到了目录外面的文件，或者把`.env`这样的隐藏文件发了出去。
+ * 这个函数使用运行时的文件API（Node.js、Bun、Deno的`node:fs`）安全地实现了它们：
+ *
+ * 1. 请求路径只能解析到root目录里面的文件，指向目录外面的符号链接也不行
+ * 2. 默认忽略以点开头的文件和目录（dotfiles选项）
+ * 3. 根据扩展名设置content-type，根据文件大小和修改时间生成ETag
+ * 4. 用流的方式发送文件，范围请求只读取需要的部分
+ *
+ * 这就像图书馆的管理员只会在馆内的书架上找书，不会跑到别人家里去拿，也不会把员工的私人笔记借给你。
+ *
+ * @example
+ * app.use((event) =>
+ *   serveStaticDir(event, {
+ *     root: "./public",
+ *     encodings: { br: ".br", gzip: ".gz" },
+ *     immutablePattern: /^\/_assets\//,
+ *     fallback: "/404.html",
+ *   }),
+ * );
+ *
+ * @param event H3事件对象
+ * @param options 目录、隐藏文件、缓存、目录列表和404页面等选项，encodings、indexNames、fallthrough和spaFallback和serveStatic相同
+ * @returns 和serveStatic相同；找不到文件时如果设置了fallback，返回fallback文件的内容（404状态码）
+ */
+export async function serveStaticDir(
+  event: H3Event,                  // H3事件对象
+  options: ServeStaticDirOptions,  // 目录静态文件服务的选项
+): Promise<false | undefined | null | BodyInit> {
+  // 获取运行时的文件API，不支持的运行时（如浏览器、Cloudflare Workers）无法使用这个函数
+  const fs = globalThis.process?.getBuiltinModule?.("node:fs");
+  const path = globalThis.process?.getBuiltinModule?.("node:path");
+  const stream = globalThis.process?.getBuiltinModule?.("node:stream");
+  if (!fs || !path || !stream) {
+    throw createError({
+      statusMessage: "serveStaticDir requires a runtime with node:fs support",
+      statusCode: 500,
+    });
+  }
+
+  // root目录的真实路径（解析掉符号链接），目录不存在时所有文件都当作不存在
+  const root = await fs.promises
+    .realpath(path.resolve(options.root))
+    .catch(() => undefined);
+
+  // 把文件ID（如"/assets/app.js"）解析成root目录里面的真实文件路径，不允许访问时返回undefined
+  // 就像管理员先确认你要的书在本馆的书架上，而不是在仓库或者别的图书馆
+  const resolveFile = async (id: string) => {
+    if (!root || id.includes("\0")) {
+      return undefined;
+    }
+    // 以点开头的路径片段（如".env"、".git"），".."也算在里面
+    if (
+      options.dotfiles !== "allow" &&
+      id.split("/").some((s) => s.startsWith("."))
+    ) {
+      if (options.dotfiles === "deny") {
+        throw createError({
+          statusMessage: "Forbidden",  // 状态消息：禁止访问
+          statusCode: 403,            // 状态码：403
+        });
+      }
+      return undefined;
+    }
+    // 先检查路径本身，再检查解析掉符号链接之后的真实路径
+    const file = path.resolve(root, "." + withLeadingSlash(id));
+    if (!isInsideDir(path, root, file)) {
+      return undefined;
+    }
+    const realFile = await fs.promises.realpath(file).catch(() => undefined);
+    return realFile && isInsideDir(path, root, realFile) ? realFile : undefined;
+  };
+
+  // 获取文件信息，不存在或者不是文件（如目录）时返回undefined
+  const statFile = async (id: string) => {
+    const file = await resolveFile(id);
+    const stats = file && (await fs.promises.stat(file).catch(() => undefined));
+    return stats && stats.isFile() ? { file, stats } : undefined;
+  };
+
+  // 请求路径和它的索引文件，serveStatic会在它们后面加上压缩文件的扩展名（如".gz"）
+  const originalId = decodeURI(
+    withLeadingSlash(withoutTrailingSlash(getPathname(event.path))),
+  );
+  const indexNames = options.indexNames || ["/index.html"];
+  const plainIds = new Set([
+    originalId,
+    ...indexNames.map((name) => originalId + name),
+  ]);
+
+  const isGetOrHead =
+    event.request.method === "GET" || event.request.method === "HEAD";
+  const contents = await serveStatic(event, {
+    encodings: options.encodings,
+    indexNames,
+    spaFallback: options.spaFallback,
+    // 列出目录时不显示被dotfiles选项隐藏的文件和指向root外面的符号链接
+    directoryListing: options.directoryListing
+      ? {
+          getEntries: async (id) => {
+            const dir = await resolveFile(id);
+            const names = dir ? await fs.promises.readdir(dir) : [];
+            const entries: StaticDirectoryEntry[] = [];
+            for (const name of names) {
+              if (options.dotfiles !== "allow" && name.startsWith(".")) {
+                continue;
+              }
+              const file = await resolveFile(`${id}/${name}`);
+              const stats =
+                file && (await fs.promises.stat(file).catch(() => undefined));
+              if (stats && (stats.isFile() || stats.isDirectory())) {
+                entries.push({
+                  name,
+                  isDirectory: stats.isDirectory(),
+                  size: stats.size,
+                  mtime: stats.mtime,
+                });
+              }
+            }
+            return entries;
+          },
+        }
+      : undefined,
+    // 有fallback时先让serveStatic返回false，再发送fallback文件
+    fallthrough: options.fallthrough || (isGetOrHead && !!options.fallback),
+    getMeta: async (id) => {
+      const file = await resolveFile(id);
+      const stats =
+        file && (await fs.promises.stat(file).catch(() => undefined));
+      if (stats && stats.isDirectory()) {
+        return { isDirectory: true, mtime: stats.mtime };
+      }
+      if (!stats || !stats.isFile()) {
+        return undefined;
+      }
+      // 压缩版本的文件（如"/app.js.gz"）使用原文件的类型，并设置对应的content-encoding
+      const encoding = Object.keys(options.encodings || {}).find((name) => {
+        const ext = options.encodings![name];
+        return id.endsWith(ext) && plainIds.has(id.slice(0, -ext.length));
+      });
+      const { size, mtime } = stats;
+      return {
+        type: getMimeType(
+          encoding ? id.slice(0, -options.encodings![encoding].length) : id,
+        ),
+        encoding,
+        size,
+        mtime,
+        // 根据文件大小和修改时间生成弱ETag，不需要读取文件内容
+        etag: `W/"${size.toString(16)}-${mtime.getTime().toString(16)}"`,
+      };
+    },
+    // 范围请求时只读取需要的部分
+    ranges: true,
+    getContents: async (id, range) => {
+      const file = await resolveFile(id);
+      return file && createFileStream(fs, stream, file, range);
+    },
+  });
+
+  // 找到了文件：根据选项设置缓存时间
+  if (contents !== false) {
+    const pathname = getPathname(event.path);
+    if (!event.response.headers.has("cache-control")) {
+      if (options.immutablePattern?.test(pathname)) {
+        event.response.headers.set(
+          "cache-control",
+          "public, max-age=31536000, immutable",
+        );
+      } else if (options.maxAge !== undefined) {
+        event.response.headers.set(
+          "cache-control",
+          `public, max-age=${options.maxAge}`,
+        );
+      }
+    }
+    return contents;
+  }
+
+  // 没有找到文件：发送fallback文件（比如自定义的404页面）
+  const fallback =
+    options.fallback && isGetOrHead
+      ? await statFile(options.fallback)
+      : undefined;
+  if (!fallback) {
+    if (!options.fallthrough) {
+      throw createError({
+        statusMessage: "Cannot find static asset " + originalId,  // 状态消息：找不到静态资源
+        statusCode: 404,                                        // 状态码：404
+      });
+    }
+    return false;
+  }
+  event.response.status = 404;
+  const fallbackType = getMimeType(options.fallback!);
+  if (fallbackType) {
+    event.response.headers.set("content-type", fallbackType);
+  }
+  event.response.headers.set("content-length", fallback.stats.size + "");
+  if (event.request.method === "HEAD") {
+    return "";
+  }
+  return createFileStream(fs, stream, fallback.file);
+}
+
 // --- 内部工具函数 ---
 
+/**
+ * 获取单页应用回退的文件ID，这个路径不应该回退时返回undefined
+ *
+ * 带扩展名的路径（如"/app.js"）是在请求资源文件，找不到就应该返回404，而不是返回入口页面；
+ * exclude选项中的路径（如"/api/**"）也不会回退。
+ *
+ * @param id 请求的文件ID，如"/dashboard/settings"
+ * @param spaFallback spaFallback选项
+ * @returns 入口页面的文件ID，如"/index.html"
+ */
+function getSPAFallbackId(
+  id: string,
+  spaFallback: ServeStaticOptions["spaFallback"],
+): string | undefined {
+  if (!spaFallback) {
+    return undefined;
+  }
+  const { path = "/index.html", exclude = [] } =
+    typeof spaFallback === "object"
+      ? spaFallback
+      : { path: typeof spaFallback === "string" ? spaFallback : undefined };
+  if (id.slice(id.lastIndexOf("/") + 1).includes(".")) {
+    return undefined;
+  }
+  const excluded = exclude.some((pattern) =>
+    typeof pattern === "string"
+      ? matchPathPattern(pattern, id)
+      : pattern.test(id),
+  );
+  return excluded ? undefined : withLeadingSlash(path);
+}
+
+/**
+ * 检查路径是否匹配一个简单的模式：`*`匹配一段路径，`**`匹配任意多段（包括零段）
+ *
+ * 例如"/api/**"匹配"/api"、"/api/users"和"/api/users/1"，"/posts/*"匹配"/posts/1"
+ */
+function matchPathPattern(pattern: string, path: string): boolean {
+  const source = pattern
+    .split("/**")
+    .map((part) =>
+      part
+        .split("*")
+        .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^/]*"),
+    )
+    .join("(?:/.*)?");
+  return new RegExp(`^${source}$`).test(path);
+}
+
+/**
+ * 检查文件路径是否在目录里面
+ *
+ * 不能只比较字符串前缀："/srv/public-secret"也是以"/srv/public"开头的，
+ * 所以要用path.relative计算相对路径，再看它是不是跳出了目录。
+ */
+function isInsideDir(
+  path: typeof import("node:path"),
+  dir: string,
+  file: string,
+): boolean {
+  const relative = path.relative(dir, file);
+  return (
+    relative !== ".." &&
+    !relative.startsWith(".." + path.sep) &&
+    !path.isAbsolute(relative)
+  );
+}
+
+/**
+ * 把文件（或者文件的一部分）转换成Web标准的ReadableStream
+ */
+function createFileStream(
+  fs: typeof import("node:fs"),
+  stream: typeof import("node:stream"),
+  file: string,
+  range?: { start: number; end: number },
+): ReadableStream {
+  return stream.Readable.toWeb(
+    fs.createReadStream(file, range),
+  ) as ReadableStream;
+}
+
+/**
+ * 返回文件的一个或多个范围（206 Partial Content）
+ *
+ * 一个范围时直接返回这一段内容，并设置content-range响应头；
+ * 多个范围时返回multipart/byteranges，每一段都有自己的content-range。
+ *
+ * 如果开启了`ranges`选项，会把范围传给getContents，由它只读取需要的部分；
+ * 否则读取完整的内容，再由这里截取。
+ *
+ * @param event H3事件对象
+ * @param options 静态文件服务的选项
+ * @param id 文件ID
+ * @param size 文件大小
+ * @param ranges 请求的范围列表
+ * @returns 范围内的文件内容
+ */
+async function serveRanges(
+  event: H3Event,
+  options: ServeStaticOptions,
+  id: string,
+  size: number,
+  ranges: ByteRange[],
+): Promise<BodyInit | null | undefined> {
+  event.response.status = 206;
+  event.response.statusText = "Partial Content";
+
+  // 只有一个范围：直接返回这一段
+  if (ranges.length === 1) {
+    const [range] = ranges;
+    event.response.headers.set(
+      "content-range",
+      `bytes ${range.start}-${range.end}/${size}`,
+    );
+    event.response.headers.set(
+      "content-length",
+      range.end - range.start + 1 + "",
+    );
+    if (options.ranges) {
+      return options.getContents(id, range);
+    }
+    const contents = await options.getContents(id);
+    return contents && sliceBody(contents, range);
+  }
+
+  // 多个范围：完整内容只读取一次，再分别截取
+  const full = options.ranges
+    ? undefined
+    : await new Response(await options.getContents(id)).blob();
+  const parts: Array<ByteRange & { body: Blob }> = [];
+  for (const range of ranges) {
+    const body = full
+      ? full.slice(range.start, range.end + 1)
+      : await new Response(await options.getContents(id, range)).blob();
+    parts.push({ ...range, body });
+  }
+  // 返回的Blob带有multipart/byteranges类型，content-type和content-length会根据它设置
+  return createMultipartByteranges(
+    parts,
+    size,
+    event.response.headers.get("content-type"),
+  );
+}
+
 /**
  * 解析接受编码头部
  * 
  * 这个函数将浏览器发送的accept-encoding头部解析成服务器支持的编码列表。
- * 想象一下，浏览器说：“我能理解gzip和br压缩”，这个函数就会把这些信息
- * 转换成服务器能理解的格式。
+ * 想象一下，浏览器说：“我最喜欢br压缩，gzip也能理解（q=0.8），但不要deflate（q=0）”，
+ * 这个函数就会按照浏览器的喜好程度把这些信息转换成服务器能理解的格式。
  * 
- * @param header 浏览器发送的accept-encoding头部，如"gzip, deflate, br"
+ * @param header 浏览器发送的accept-encoding头部，如"br, gzip;q=0.8, deflate;q=0"
  * @param encodingMap 编码映射表，如{"gzip": ".gz", "br": ".br"}
- * @returns 服务器支持的编码列表，如[".gz", ".br"]
+ * @returns 服务器支持的编码列表，按浏览器的喜好排序，如[".br", ".gz"]
  */
 function parseAcceptEncoding(
   header?: string,
@@ -220,11 +649,10 @@ function parseAcceptEncoding(
   if (!encodingMap || !header) {
     return [];
   }
-  // 将头部字符串转换为数组并处理
-  return String(header || "")
-    .split(",")                         // 按逗号分割，如["gzip", " deflate", " br"]
-    .map((e) => encodingMap[e.trim()])   // 将每个编码转换为映射值，如[".gz", ".deflate", ".br"]
-    .filter(Boolean);                    // 过滤掉不支持的编码（映射值为null或undefined）
+  // 按q值排序并去掉不接受的编码（q=0），再转换为映射值，如[".br", ".gz"]
+  return getAcceptedEncodings(header, Object.keys(encodingMap)).map(
+    (encoding) => encodingMap[encoding],
+  );
 }
 
 /**
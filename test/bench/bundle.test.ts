@@ -17,15 +17,18 @@ describe("benchmark", () => {
     //   `Bundle size: (node) ${nodeBundle.bytes} (gzip: ${nodeBundle.gzipSize})`,
     // );
     expect(nodeBundle.bytes).toBeLessThanOrEqual(25_000); // <25kb
-    expect(nodeBundle.gzipSize).toBeLessThanOrEqual(7500); // <7.5kb
+    expect(nodeBundle.gzipSize).toBeLessThanOrEqual(8500); // <8.5kb
 
     // Deno
     const denoBundle = await getBundleSize(code, ["deno"]);
     // console.log(
     //   `Bundle size: (deno) ${denoBundle.bytes} (gzip: ${denoBundle.gzipSize})`,
     // );
-    expect(denoBundle.bytes).toBeLessThanOrEqual(15_000); // <15kb
-    expect(denoBundle.gzipSize).toBeLessThanOrEqual(4500); // <4.5kb
+    // Router features that are methods of the H3 class (onion middleware, 405
+    // responses, route groups, named routes and `app.routes()`) are always bundled,
+    // and so is the HTML error page sent to browsers by the core error path
+    expect(denoBundle.bytes).toBeLessThanOrEqual(21_000); // <21kb
+    expect(denoBundle.gzipSize).toBeLessThanOrEqual(7500); // <7.5kb
   });
 });
 
@@ -1,6 +1,6 @@
 import { createReadStream } from "node:fs";
 import { readFile } from "node:fs/promises";
-import { readBody } from "../src";
+import { readBody, readMultipartFormData, readValidatedBody } from "../src";
 import { describeMatrix } from "./_setup";
 
 describeMatrix("body", (t, { it, expect, describe }) => {
@@ -329,4 +329,278 @@ describeMatrix("body", (t, { it, expect, describe }) => {
       expect(await result.json()).toMatchObject({ user: "john" });
     });
   });
+
+  describe("maxBodySize", () => {
+    it("reads body within the limit", async () => {
+      t.app.post("/api/test", (event) => readBody(event, { maxBodySize: 16 }));
+      const result = await t.fetch("/api/test", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ ok: true }),
+      });
+      expect(await result.json()).toEqual({ ok: true });
+    });
+
+    it("rejects body larger than the limit", async () => {
+      t.app.post("/api/test", (event) => readBody(event, { maxBodySize: 4 }));
+      const result = await t.fetch("/api/test", {
+        method: "POST",
+        body: "too large",
+      });
+      expect(result.status).toBe(413);
+      expect(await result.json()).toMatchObject({
+        statusCode: 413,
+        statusMessage: "Payload Too Large",
+      });
+    });
+
+    it("rejects streamed body without content-length", async () => {
+      let readChunks = 0;
+      t.app.post("/api/test", (event) => readBody(event, { maxBodySize: 8 }));
+      const result = await t.fetch("/api/test", {
+        method: "POST",
+        // @ts-expect-error
+        duplex: "half",
+        body: new ReadableStream({
+          pull(controller) {
+            if (++readChunks > 100) {
+              controller.close();
+              return;
+            }
+            controller.enqueue(new TextEncoder().encode("chunk"));
+          },
+        }),
+      });
+      expect(result.status).toBe(413);
+    });
+
+    it("uses maxBodySize of app config", async () => {
+      t.app.config.maxBodySize = 4;
+      t.app.post("/api/test", (event) => readBody(event));
+      t.app.post("/api/override", (event) =>
+        readBody(event, { maxBodySize: 64 }),
+      );
+
+      const result = await t.fetch("/api/test", {
+        method: "POST",
+        body: "too large",
+      });
+      expect(result.status).toBe(413);
+
+      const overridden = await t.fetch("/api/override", {
+        method: "POST",
+        body: '"not too large"',
+      });
+      expect(await overridden.text()).toBe("not too large");
+    });
+
+    it("applies to readValidatedBody", async () => {
+      t.app.post("/api/test", (event) =>
+        readValidatedBody(event, () => true, { maxBodySize: 4 }),
+      );
+      const result = await t.fetch("/api/test", {
+        method: "POST",
+        body: "too large",
+      });
+      expect(result.status).toBe(413);
+    });
+  });
+
+  describe("readMultipartFormData", () => {
+    const createForm = () => {
+      const form = new FormData();
+      form.append("title", "hello");
+      form.append(
+        "file",
+        new Blob(["file content"], { type: "text/plain" }),
+        "a.txt",
+      );
+      form.append(
+        "image",
+        new Blob([new Uint8Array([1, 2, 3])], { type: "image/png" }),
+        "b.png",
+      );
+      return form;
+    };
+
+    it("streams fields and files", async () => {
+      t.app.post("/api/test", async (event) => {
+        const parts = [];
+        for await (const part of readMultipartFormData(event)) {
+          const bytes = new Uint8Array(await part.arrayBuffer());
+          parts.push({
+            name: part.name,
+            filename: part.filename,
+            type: part.type,
+            size: bytes.byteLength,
+            text: part.filename === "b.png" ? undefined : textOf(bytes),
+          });
+        }
+        return parts;
+      });
+
+      const result = await t.fetch("/api/test", {
+        method: "POST",
+        body: createForm(),
+      });
+      expect(await result.json()).toEqual([
+        { name: "title", type: "text/plain", size: 5, text: "hello" },
+        {
+          name: "file",
+          filename: "a.txt",
+          type: "text/plain",
+          size: 12,
+          text: "file content",
+        },
+        { name: "image", filename: "b.png", type: "image/png", size: 3 },
+      ]);
+    });
+
+    it("streams large files in chunks", async () => {
+      const content = "0123456789".repeat(100_000);
+      t.app.post("/api/test", async (event) => {
+        for await (const part of readMultipartFormData(event)) {
+          let size = 0;
+          let chunks = 0;
+          const reader = part.stream.getReader();
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+              break;
+            }
+            size += value.byteLength;
+            chunks++;
+          }
+          return { size, chunked: chunks > 1 };
+        }
+      });
+
+      const form = new FormData();
+      form.append("file", new Blob([content]), "large.txt");
+      const result = await t.fetch("/api/test", { method: "POST", body: form });
+      expect(await result.json()).toEqual({
+        size: content.length,
+        chunked: true,
+      });
+    });
+
+    it("skips parts that are not consumed", async () => {
+      t.app.post("/api/test", async (event) => {
+        const names = [];
+        for await (const part of readMultipartFormData(event)) {
+          names.push(part.name);
+        }
+        return names;
+      });
+      const result = await t.fetch("/api/test", {
+        method: "POST",
+        body: createForm(),
+      });
+      expect(await result.json()).toEqual(["title", "file", "image"]);
+    });
+
+    it("parses raw multipart body", async () => {
+      t.app.post("/api/test", async (event) => {
+        const parts = [];
+        for await (const part of readMultipartFormData(event)) {
+          parts.push({ name: part.name, filename: part.filename });
+        }
+        return parts;
+      });
+      const result = await t.fetch("/api/test", {
+        method: "POST",
+        headers: { "content-type": 'multipart/form-data; boundary="xyz"' },
+        body: [
+          "preamble",
+          "--xyz",
+          'Content-Disposition: form-data; name="a\\"b"; filename*=UTF-8\'\'%E4%BD%A0%E5%A5%BD.txt',
+          "",
+          "--xyz inside",
+          "--xyz--",
+          "",
+        ].join("\r\n"),
+      });
+      expect(await result.json()).toEqual([
+        { name: 'a"b', filename: "你好.txt" },
+      ]);
+    });
+
+    it("enforces limits", async () => {
+      t.app.post("/api/:limit", async (event) => {
+        const limit = event.context.params!.limit;
+        for await (const part of readMultipartFormData(event, {
+          maxFileSize: limit === "size" ? 4 : undefined,
+          maxFiles: limit === "files" ? 1 : undefined,
+          allowedTypes: limit === "types" ? ["text/*"] : undefined,
+          maxBodySize: limit === "body" ? 16 : undefined,
+        })) {
+          await part.text();
+        }
+        return "ok";
+      });
+
+      const statuses = [];
+      for (const limit of ["size", "files", "types", "body", "none"]) {
+        const result = await t.fetch(`/api/${limit}`, {
+          method: "POST",
+          body: createForm(),
+        });
+        statuses.push(result.status);
+      }
+      expect(statuses).toEqual([413, 413, 415, 413, 200]);
+    });
+
+    it("rejects non-multipart body", async () => {
+      t.app.post("/api/test", async (event) => {
+        for await (const _part of readMultipartFormData(event)) {
+          // noop
+        }
+      });
+      const result = await t.fetch("/api/test", {
+        method: "POST",
+        body: "{}",
+      });
+      expect(result.status).toBe(415);
+    });
+
+    it("reads text fields with readBody", async () => {
+      t.app.post("/api/test", (event) => readBody(event));
+      const form = createForm();
+      form.append("title", "world");
+      const result = await t.fetch("/api/test", { method: "POST", body: form });
+      expect(await result.json()).toEqual({ title: ["hello", "world"] });
+    });
+
+    it("reads text fields with readBody regardless of content type case", async () => {
+      t.app.post("/api/test", (event) => readBody(event));
+      const result = await t.fetch("/api/test", {
+        method: "POST",
+        headers: { "content-type": "Multipart/Form-Data; boundary=xyz" },
+        body: [
+          "--xyz",
+          'Content-Disposition: form-data; name="title"',
+          "",
+          "hello",
+          "--xyz--",
+          "",
+        ].join("\r\n"),
+      });
+      expect(await result.json()).toEqual({ title: "hello" });
+    });
+
+    it("validates text fields with readValidatedBody", async () => {
+      t.app.post("/api/test", (event) =>
+        readValidatedBody(event, (body: any) => typeof body.age === "number"),
+      );
+      const result = await t.fetch("/api/test", {
+        method: "POST",
+        body: createForm(),
+      });
+      expect(result.status).toBe(400);
+    });
+  });
 });
+
+function textOf(bytes: Uint8Array) {
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,100 @@
+import { createClient, defineEventHandler, getQuery, readBody } from "../src";
+import { describeMatrix } from "./_setup";
+
+describeMatrix("client", (t, { it, expect }) => {
+  const routes = () =>
+    t.app
+      .get("/users/:id", (event) => ({
+        id: event.context.params!.id,
+        query: getQuery(event),
+      }))
+      .post(
+        "/users",
+        defineEventHandler<{ body: { name: string } }>(async (event) => {
+          const body = await readBody(event);
+          return { created: body!.name };
+        }),
+      )
+      .get("/files/**:path", (event) => event.context.params!.path)
+      .delete("/users/:id", () => null)
+      .get("/error", () => {
+        throw new Error("Broken");
+      });
+
+  it("sends typed requests", async () => {
+    routes();
+    const client = createClient<ReturnType<typeof routes>>(t.fetch);
+
+    expect(
+      await client.get("/users/:id", {
+        params: { id: "a b" },
+        query: { tab: "posts" },
+      }),
+    ).toEqual({ id: "a%20b", query: { tab: "posts" } });
+
+    expect(await client.post("/users", { body: { name: "h3" } })).toEqual({
+      created: "h3",
+    });
+
+    expect(
+      await client.get("/files/**:path", { params: { path: "a/b.txt" } }),
+    ).toBe("a/b.txt");
+
+    expect(
+      await client.delete("/users/:id", { params: { id: 1 } }),
+    ).toBeUndefined();
+  });
+
+  it("throws on error responses", async () => {
+    routes();
+    const client = createClient<ReturnType<typeof routes>>(t.fetch);
+
+    await expect(client.get("/error")).rejects.toMatchObject({
+      statusCode: 500,
+      data: { statusCode: 500 },
+    });
+  });
+
+  it("keeps non-JSON error bodies as text", async () => {
+    t.app.get(
+      "/bad-gateway",
+      () =>
+        new Response("<h1>Bad Gateway</h1>", {
+          status: 502,
+          headers: { "content-type": "application/json" },
+        }),
+    );
+    const client = createClient(t.fetch);
+
+    await expect(client.get("/bad-gateway")).rejects.toMatchObject({
+      statusCode: 502,
+      data: "<h1>Bad Gateway</h1>",
+    });
+  });
+
+  it("sends default headers", async () => {
+    t.app.get("/headers", (event) => event.request.headers.get("x-test"));
+    const client = createClient(t.fetch, {
+      headers: { "x-test": "default" },
+    });
+    expect(await client.get("/headers")).toBe("default");
+    expect(
+      await client.get("/headers", { headers: { "x-test": "override" } }),
+    ).toBe("override");
+  });
+
+  it("uses base URL with fetch option", async () => {
+    routes();
+    const client = createClient<ReturnType<typeof routes>>(
+      "http://localhost/api",
+      {
+        fetch: (input, init) =>
+          t.fetch(input.replace("http://localhost/api", ""), init),
+      },
+    );
+    expect(await client.get("/users/:id", { params: { id: 1 } })).toEqual({
+      id: "1",
+      query: {},
+    });
+  });
+});
@@ -1,8 +1,8 @@
 import { vi } from "vitest";
-import { createError } from "../src";
+import { createError, readValidatedBody } from "../src";
 import { describeMatrix } from "./_setup";
 
-describeMatrix("errors", (t, { it, expect }) => {
+describeMatrix("errors", (t, { it, expect, describe }) => {
   const consoleMock = ((globalThis.console.error as any) = vi.fn());
 
   it("logs errors", async () => {
@@ -123,4 +123,217 @@ describeMatrix("errors", (t, { it, expect }) => {
 
     t.errors = [];
   });
+
+  describe("problem+json", () => {
+    it("formats errors as problem details", async () => {
+      t.app.config.errorFormat = "problem+json";
+      t.app.get("/api/test", () => {
+        throw createError({
+          statusCode: 409,
+          statusMessage: "Conflict",
+          message: "User already exists",
+          data: { type: "https://example.com/problems/conflict", id: 1 },
+        });
+      });
+
+      const res = await t.fetch("/api/test");
+      expect(res.status).toBe(409);
+      expect(res.headers.get("content-type")).toBe("application/problem+json");
+      expect(await res.json()).toMatchObject({
+        type: "https://example.com/problems/conflict",
+        title: "Conflict",
+        status: 409,
+        detail: "User already exists",
+        instance: "/api/test",
+        id: 1,
+      });
+    });
+
+    it("does not let data override standard members", async () => {
+      t.app.config.errorFormat = "problem+json";
+      t.app.get("/api/test", () => {
+        throw createError({
+          statusCode: 400,
+          statusMessage: "Bad Request",
+          data: { type: 1, instance: { id: 1 }, status: 200, title: "OK" },
+        });
+      });
+
+      const res = await t.fetch("/api/test");
+      expect(await res.json()).toMatchObject({
+        type: "about:blank",
+        instance: "/api/test",
+        status: 400,
+        title: "Bad Request",
+      });
+    });
+
+    it("includes validation issues", async () => {
+      t.app.config.errorFormat = "problem+json";
+      t.app.post("/api/test", (event) =>
+        readValidatedBody(event, () => {
+          throw Object.assign(new Error("Invalid email"), {
+            issues: [{ path: ["email"], message: "Invalid email" }],
+          });
+        }),
+      );
+
+      const res = await t.fetch("/api/test", {
+        method: "POST",
+        body: JSON.stringify({ email: "h3" }),
+      });
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({
+        type: "about:blank",
+        title: "Validation Error",
+        status: 400,
+        detail: "Invalid email",
+        issues: [{ path: ["email"], message: "Invalid email" }],
+      });
+    });
+
+    it("hides details of server errors without debug", async () => {
+      t.app.config.errorFormat = "problem+json";
+      t.app.config.debug = false;
+      t.app.get("/api/test", () => {
+        throw new Error("Secret");
+      });
+
+      const res = await t.fetch("/api/test");
+      expect(res.status).toBe(500);
+      const body = await res.json();
+      expect(body).toMatchObject({ type: "about:blank", status: 500 });
+      expect(body.detail).toBeUndefined();
+      expect(body.stack).toBeUndefined();
+    });
+
+    it("formats not found errors", async () => {
+      t.app.config.errorFormat = "problem+json";
+      const res = await t.fetch("/missing");
+      expect(res.status).toBe(404);
+      expect(await res.json()).toMatchObject({
+        type: "about:blank",
+        status: 404,
+        instance: "/missing",
+      });
+    });
+  });
+
+  describe("html error pages", () => {
+    const accept = "text/html,application/xhtml+xml,*/*;q=0.8";
+
+    it("renders debug page for browser requests", async () => {
+      t.app.get("/users/:id", () => {
+        throw createError({
+          statusCode: 422,
+          statusMessage: "Unprocessable",
+          message: "Invalid <user>",
+          data: { field: "name" },
+          cause: new Error("Database failure"),
+        });
+      });
+
+      const res = await t.fetch("/users/123", {
+        headers: { accept, authorization: "Bearer secret" },
+      });
+      expect(res.status).toBe(422);
+      expect(res.headers.get("content-type")).toBe("text/html; charset=utf-8");
+      expect(res.headers.get("vary")).toBe("accept");
+      const html = await res.text();
+      expect(html).toContain("422 Unprocessable");
+      expect(html).toContain("Invalid &#60;user&#62;");
+      expect(html).toMatch(/GET http:\/\/[^/]+\/users\/123/);
+      expect(html).toContain("Error: Database failure");
+      expect(html).toContain("&#34;field&#34;: &#34;name&#34;");
+      expect(html).toContain("&#34;id&#34;: &#34;123&#34;");
+      expect(html).toContain("[redacted]");
+      expect(html).not.toContain("secret");
+      // Code frame of this test file
+      expect(html).toContain("<mark>");
+      expect(html).toContain("errors.test.ts");
+    });
+
+    it("renders minimal page without debug", async () => {
+      t.app.config.debug = false;
+      t.app.get("/api/test", () => {
+        throw new Error("Secret");
+      });
+
+      const res = await t.fetch("/api/test", { headers: { accept } });
+      expect(res.status).toBe(500);
+      expect(res.headers.get("content-type")).toBe("text/html; charset=utf-8");
+      const html = await res.text();
+      expect(html).toContain("<title>500</title>");
+      expect(html).toContain("<footer>h3</footer>");
+      expect(html).not.toContain("Secret");
+      expect(html).not.toContain("errors.test.ts");
+    });
+
+    it("renders not found page for browser requests", async () => {
+      const res = await t.fetch("/missing", { headers: { accept } });
+      expect(res.status).toBe(404);
+      expect(res.headers.get("content-type")).toBe("text/html; charset=utf-8");
+      const html = await res.text();
+      expect(html).toContain(
+        "404 Cannot find any route matching [GET] /missing",
+      );
+    });
+
+    it("renders method not allowed page for browser requests", async () => {
+      t.app.get("/api/test", () => "ok");
+
+      const res = await t.fetch("/api/test", {
+        method: "POST",
+        headers: { accept },
+      });
+      expect(res.status).toBe(405);
+      expect(res.headers.get("allow")).toBe("GET, HEAD, OPTIONS");
+      expect(res.headers.get("content-type")).toBe("text/html; charset=utf-8");
+      expect(await res.text()).toContain("405 Method Not Allowed");
+    });
+
+    it("only marks real cycles as circular", async () => {
+      t.app.get("/api/test", () => {
+        const shared = { name: "shared" };
+        const cyclic: Record<string, unknown> = { name: "cyclic" };
+        cyclic.self = cyclic;
+        throw createError({ data: { a: shared, b: shared, cyclic } });
+      });
+
+      const html = await (
+        await t.fetch("/api/test", { headers: { accept } })
+      ).text();
+      expect(html.match(/&#34;shared&#34;/g)).toHaveLength(2);
+      expect(html).toContain("&#34;self&#34;: &#34;[Circular]&#34;");
+      expect(html.match(/\[Circular\]/g)).toHaveLength(1);
+    });
+
+    it("keeps json for api requests", async () => {
+      t.app.get("/api/test", () => {
+        throw createError({ statusCode: 400, statusMessage: "Bad Request" });
+      });
+
+      for (const accept of [
+        "*/*",
+        "application/json",
+        "application/json, text/html;q=0.9",
+        "application/problem+json, text/html;q=0.9",
+        "text/html, application/json",
+      ]) {
+        const res = await t.fetch("/api/test", { headers: { accept } });
+        expect(res.headers.get("content-type")).toMatch("application/json");
+      }
+    });
+
+    it("is not used with htmlErrors: false", async () => {
+      t.app.config.htmlErrors = false;
+      t.app.get("/api/test", () => {
+        throw createError({ statusCode: 400, statusMessage: "Bad Request" });
+      });
+
+      const res = await t.fetch("/api/test", { headers: { accept } });
+      expect(res.status).toBe(400);
+      expect(res.headers.get("content-type")).toMatch("application/json");
+    });
+  });
 });
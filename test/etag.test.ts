@@ -0,0 +1,101 @@
+import { compress, createError, etag } from "../src";
+import { describeMatrix } from "./_setup";
+
+describeMatrix("etag", (t, { it, expect }) => {
+  it("generates strong etag for json", async () => {
+    t.app.use(etag());
+    t.app.get("/", () => ({ items: [1, 2, 3] }));
+
+    const res = await t.fetch("/");
+    const tag = res.headers.get("etag");
+    expect(res.status).toBe(200);
+    expect(tag).toMatch(/^"[\w-]{27}"$/);
+    expect(await res.json()).toEqual({ items: [1, 2, 3] });
+
+    const again = await t.fetch("/");
+    expect(again.headers.get("etag")).toBe(tag);
+  });
+
+  it("responds with 304 when if-none-match matches", async () => {
+    t.app.use(etag());
+    t.app.get("/", () => "hello");
+    t.app.get("/json", () => ({ hello: "world" }));
+
+    const tag = (await t.fetch("/")).headers.get("etag")!;
+    const res = await t.fetch("/", { headers: { "if-none-match": tag } });
+    expect(res.status).toBe(304);
+    expect(res.headers.get("etag")).toBe(tag);
+    expect(res.headers.get("content-type")).toBeNull();
+    expect(res.headers.get("content-length")).toBeNull();
+    expect(await res.text()).toBe("");
+
+    const weakRes = await t.fetch("/", {
+      headers: { "if-none-match": `"other", W/${tag}` },
+    });
+    expect(weakRes.status).toBe(304);
+
+    const jsonTag = (await t.fetch("/json")).headers.get("etag")!;
+    const jsonRes = await t.fetch("/json", {
+      headers: { "if-none-match": jsonTag },
+    });
+    expect(jsonRes.status).toBe(304);
+    expect(jsonRes.headers.get("content-type")).toBeNull();
+    expect(jsonRes.headers.get("content-length")).toBeNull();
+  });
+
+  it("changes etag with content", async () => {
+    let counter = 0;
+    t.app.use(etag());
+    t.app.get("/", () => new TextEncoder().encode(`count:${counter++}`));
+
+    const first = await t.fetch("/");
+    const second = await t.fetch("/", {
+      headers: { "if-none-match": first.headers.get("etag")! },
+    });
+    expect(second.status).toBe(200);
+    expect(await second.text()).toBe("count:1");
+  });
+
+  it("supports weak etags", async () => {
+    t.app.use(etag({ weak: true }));
+    t.app.get("/", () => "hello");
+    const res = await t.fetch("/");
+    expect(res.headers.get("etag")).toMatch(/^W\/"[\w-]+"$/);
+  });
+
+  it("skips existing etags, errors and other methods", async () => {
+    t.app.use(etag());
+    t.app.get("/custom", (event) => {
+      event.response.headers.set("etag", '"custom"');
+      return "hello";
+    });
+    t.app.get("/error", () => {
+      throw createError({ statusCode: 400 });
+    });
+    t.app.post("/", () => "hello");
+
+    expect((await t.fetch("/custom")).headers.get("etag")).toBe('"custom"');
+    expect((await t.fetch("/error")).headers.get("etag")).toBeNull();
+    expect(
+      (await t.fetch("/", { method: "POST" })).headers.get("etag"),
+    ).toBeNull();
+  });
+
+  it("uses weak etag for compressed responses", async () => {
+    t.app.use(compress());
+    t.app.use(etag());
+    t.app.get("/", () => "hello h3! ".repeat(200));
+
+    const res = await t.fetch("/", {
+      headers: { "accept-encoding": "gzip" },
+    });
+    const tag = res.headers.get("etag")!;
+    expect(res.headers.get("content-encoding")).toBe("gzip");
+    expect(tag).toMatch(/^W\//);
+
+    const cached = await t.fetch("/", {
+      headers: { "accept-encoding": "gzip", "if-none-match": tag },
+    });
+    expect(cached.status).toBe(304);
+  });
+});
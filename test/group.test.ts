@@ -0,0 +1,125 @@
+import { createH3, withBase } from "../src";
+import { describeMatrix } from "./_setup";
+
+describeMatrix("route groups", (t, { it, expect }) => {
+  it("registers routes with group prefix", async () => {
+    t.app.group("/api/v1", (group) => {
+      group.get("/users", () => "users").post("/users", () => "created");
+      group.get("/users/:id", (event) => `user ${event.context.params?.id}`);
+    });
+
+    expect(await (await t.fetch("/api/v1/users")).text()).toBe("users");
+    expect(
+      await (await t.fetch("/api/v1/users", { method: "POST" })).text(),
+    ).toBe("created");
+    expect(await (await t.fetch("/api/v1/users/123")).text()).toBe("user 123");
+    expect((await t.fetch("/users")).status).toBe(404);
+  });
+
+  it("runs scoped middleware only for group routes", async () => {
+    const calls: string[] = [];
+    t.app.get("/public", () => "public");
+    t.app.group("/admin", (group) => {
+      group.get("/dashboard", () => "dashboard");
+      group.use(async (event, next) => {
+        calls.push(event.path);
+        const res = await next();
+        return `[admin] ${res}`;
+      });
+    });
+
+    expect(await (await t.fetch("/public")).text()).toBe("public");
+    expect(await (await t.fetch("/admin/dashboard")).text()).toBe(
+      "[admin] dashboard",
+    );
+    expect(calls).toEqual(["/admin/dashboard"]);
+  });
+
+  it("short-circuits group routes from middleware", async () => {
+    t.app.group(
+      "/secret",
+      (group) => {
+        group.get("/data", () => "data");
+      },
+      {
+        middleware: [
+          (event) => {
+            if (!event.request.headers.has("authorization")) {
+              return new Response("Unauthorized", { status: 401 });
+            }
+          },
+        ],
+      },
+    );
+
+    expect((await t.fetch("/secret/data")).status).toBe(401);
+    const res = await t.fetch("/secret/data", {
+      headers: { authorization: "token" },
+    });
+    expect(await res.text()).toBe("data");
+  });
+
+  it("nests groups and inherits middleware and meta", async () => {
+    t.app.group(
+      "/api",
+      (api) => {
+        api.use(async (_event, next) => `api(${await next()})`);
+        api.group(
+          "/v2",
+          (v2) => {
+            v2.use(async (_event, next) => `v2(${await next()})`);
+            v2.get(
+              "/items",
+              (event) => JSON.stringify(event.context.matchedRoute?.meta),
+              { meta: { auth: true } },
+            );
+          },
+          { meta: { version: 2 } },
+        );
+      },
+      { meta: { tags: ["api"], version: 1 } },
+    );
+
+    const res = await t.fetch("/api/v2/items");
+    expect(await res.text()).toBe(
+      `api(v2(${JSON.stringify({ tags: ["api"], version: 2, auth: true })}))`,
+    );
+  });
+
+  it("reports full joined route", async () => {
+    t.app.group("/api", (group) => {
+      group.get("/users/:id", (event) => event.context.matchedRoute?.route);
+      group.all(
+        "/sub/**",
+        withBase("/api/sub", createH3().get("/hello", () => "hello").handler),
+      );
+    });
+
+    expect(await (await t.fetch("/api/users/1")).text()).toBe("/api/users/:id");
+    expect(await t.app.resolve("GET", "/api/users/1")).toMatchObject({
+      route: "/api/users/:id",
+      params: { id: "1" },
+    });
+    expect(await (await t.fetch("/api/sub/hello")).text()).toBe("hello");
+    expect(await t.app.resolve("GET", "/api/sub/hello")).toMatchObject({
+      route: "/api/sub/hello",
+    });
+  });
+
+  it("reports allowed methods of mounted apps", async () => {
+    t.app.group("/api", (group) => {
+      group.all(
+        "/sub/**",
+        withBase("/api/sub", createH3().get("/hello", () => "hello").handler),
+      );
+    });
+
+    const res = await t.fetch("/api/sub/hello", { method: "POST" });
+    expect(res.status).toBe(405);
+    expect(res.headers.get("allow")).toBe("GET, HEAD, OPTIONS");
+
+    const res2 = await t.fetch("/api/sub/hello", { method: "OPTIONS" });
+    expect(res2.status).toBe(204);
+    expect(res2.headers.get("allow")).toBe("GET, HEAD, OPTIONS");
+  });
+});
@@ -0,0 +1,137 @@
+import { defineEventHandler, defineMiddleware } from "../src";
+import { describeMatrix } from "./_setup";
+
+describeMatrix("middleware", (t, { it, expect }) => {
+  it("runs code after the route handler", async () => {
+    const calls: string[] = [];
+    t.app.use(async (_event, next) => {
+      calls.push("before");
+      const res = await next();
+      calls.push(`after:${res}`);
+    });
+    t.app.get("/", () => {
+      calls.push("handler");
+      return "Hello";
+    });
+
+    const res = await t.fetch("/");
+    expect(await res.text()).toBe("Hello");
+    expect(calls).toEqual(["before", "handler", "after:Hello"]);
+  });
+
+  it("can rewrite the downstream result", async () => {
+    t.app.use(
+      defineMiddleware(async (_event, next) => {
+        const body = await next();
+        return { wrapped: body };
+      }),
+    );
+    t.app.get("/", () => ({ foo: "bar" }));
+
+    const res = await t.fetch("/");
+    expect(await res.json()).toEqual({ wrapped: { foo: "bar" } });
+  });
+
+  it("can run cleanup when the handler throws", async () => {
+    let cleaned = false;
+    t.app.use(async (_event, next) => {
+      try {
+        return await next();
+      } finally {
+        cleaned = true;
+      }
+    });
+    t.app.get("/", () => {
+      throw new Error("boom");
+    });
+
+    const res = await t.fetch("/");
+    expect(res.status).toBe(500);
+    expect(cleaned).toBe(true);
+  });
+
+  it("short-circuits when next is not called", async () => {
+    let handlerCalled = false;
+    t.app.use((_event, _next) => "Blocked");
+    t.app.get("/", () => {
+      handlerCalled = true;
+      return "Hello";
+    });
+
+    const res = await t.fetch("/");
+    expect(await res.text()).toBe("Blocked");
+    expect(handlerCalled).toBe(false);
+  });
+
+  it("mixes with legacy middleware", async () => {
+    const calls: string[] = [];
+    t.app.use(() => {
+      calls.push("legacy");
+    });
+    t.app.use(async (_event, next) => {
+      calls.push("onion:before");
+      await next();
+      calls.push("onion:after");
+    });
+    t.app.get("/", () => "Hello");
+
+    const res = await t.fetch("/");
+    expect(await res.text()).toBe("Hello");
+    expect(calls).toEqual(["legacy", "onion:before", "onion:after"]);
+  });
+
+  it("runs downstream only once when next is called multiple times", async () => {
+    let count = 0;
+    t.app.use(async (_event, next) => {
+      await next();
+      return next();
+    });
+    t.app.get("/", () => `${++count}`);
+
+    const res = await t.fetch("/");
+    expect(await res.text()).toBe("1");
+  });
+
+  it("returns 404 when downstream does not match", async () => {
+    t.app.use(async (_event, next) => {
+      await next();
+    });
+
+    const res = await t.fetch("/missing");
+    expect(res.status).toBe(404);
+  });
+
+  it("supports routed middleware", async () => {
+    t.app.use("/api/**", async (event, next) => {
+      const res = await next();
+      event.response.headers.set("x-api", "1");
+      return res;
+    });
+    t.app.get("/api/test", () => "API");
+    t.app.get("/test", () => "Test");
+
+    const res1 = await t.fetch("/api/test");
+    expect(await res1.text()).toBe("API");
+    expect(res1.headers.get("x-api")).toBe("1");
+
+    const res2 = await t.fetch("/test");
+    expect(await res2.text()).toBe("Test");
+    expect(res2.headers.get("x-api")).toBeNull();
+  });
+
+  it("supports middleware in event handler object", async () => {
+    t.app.get(
+      "/",
+      defineEventHandler({
+        middleware: [
+          async (_event, next) => `[${await next()}]`,
+          async (_event, next) => `(${await next()})`,
+        ],
+        handler: () => "Hello",
+      }),
+    );
+
+    const res = await t.fetch("/");
+    expect(await res.text()).toBe("[(Hello)]");
+  });
+});
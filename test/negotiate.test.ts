@@ -0,0 +1,119 @@
+import {
+  negotiate,
+  negotiateCharset,
+  negotiateEncoding,
+  negotiateLanguage,
+  negotiateType,
+} from "../src";
+import { describeMatrix } from "./_setup";
+
+describeMatrix("negotiate", (t, { it, expect, describe }) => {
+  describe("negotiate", () => {
+    const handler = () =>
+      t.app.get("/users", (event) =>
+        negotiate(event, {
+          "application/json": () => [{ name: "h3" }],
+          "text/html": () => "<ul><li>h3</li></ul>",
+          "text/csv": () => "name\nh3",
+        }),
+      );
+
+    it("uses the first type without accept header", async () => {
+      handler();
+      const res = await t.fetch("/users");
+      expect(res.headers.get("content-type")).toMatch("application/json");
+      expect(res.headers.get("vary")).toBe("accept");
+      expect(await res.json()).toEqual([{ name: "h3" }]);
+    });
+
+    it("picks the preferred type", async () => {
+      handler();
+      const res = await t.fetch("/users", {
+        headers: { accept: "text/html;q=0.8, text/csv" },
+      });
+      expect(res.headers.get("content-type")).toBe("text/csv");
+      expect(await res.text()).toBe("name\nh3");
+    });
+
+    it("handles wildcards", async () => {
+      handler();
+      const res = await t.fetch("/users", {
+        headers: { accept: "application/json;q=0.1, text/*;q=0.5" },
+      });
+      expect(res.headers.get("content-type")).toBe("text/html");
+
+      const anyRes = await t.fetch("/users", {
+        headers: { accept: "text/csv;q=0, */*" },
+      });
+      expect(anyRes.headers.get("content-type")).toMatch("application/json");
+    });
+
+    it("throws 406 when nothing matches", async () => {
+      handler();
+      const res = await t.fetch("/users", {
+        headers: { accept: "image/png, text/csv;q=0" },
+      });
+      expect(res.status).toBe(406);
+      expect(await res.json()).toMatchObject({
+        statusCode: 406,
+        statusMessage: "Not Acceptable",
+        data: { accept: ["application/json", "text/html", "text/csv"] },
+      });
+    });
+  });
+
+  it("negotiates type, language and charset", async () => {
+    t.app.get("/", (event) => ({
+      type: negotiateType(event, ["text/html", "text/html;level=1"]) || null,
+      language: negotiateLanguage(event, ["en", "zh-CN", "zh-TW"]) || null,
+      charset: negotiateCharset(event, ["iso-8859-1", "utf-16"]) || null,
+    }));
+
+    const res = await t.fetch("/", {
+      headers: {
+        accept: "text/html;q=0.5, text/html;level=1",
+        "accept-language": "zh;q=0.9, en;q=0.8, zh-TW",
+        "accept-charset": "UTF-16, *;q=0.1",
+      },
+    });
+    expect(await res.json()).toEqual({
+      type: "text/html;level=1",
+      language: "zh-TW",
+      charset: "utf-16",
+    });
+    expect(res.headers.get("vary")).toBe(
+      "accept, accept-language, accept-charset",
+    );
+
+    const noMatchRes = await t.fetch("/", {
+      headers: { "accept-language": "fr", "accept-charset": "utf-32" },
+    });
+    expect(await noMatchRes.json()).toMatchObject({
+      language: null,
+      charset: null,
+    });
+  });
+
+  it("negotiates encoding", async () => {
+    t.app.get(
+      "/",
+      (event) => negotiateEncoding(event, ["br", "gzip", "identity"]) || "none",
+    );
+
+    const cases: [string, string][] = [
+      ["gzip, br", "br"],
+      ["gzip, br;q=0.5", "gzip"],
+      ["deflate", "identity"],
+      ["deflate, identity;q=0", "none"],
+      ["*;q=0", "none"],
+      ["*", "br"],
+    ];
+    for (const [header, expected] of cases) {
+      const res = await t.fetch("/", {
+        headers: { "accept-encoding": header },
+      });
+      expect(await res.text(), header).toBe(expected);
+      expect(res.headers.get("vary")).toBe("accept-encoding");
+    }
+  });
+});
@@ -0,0 +1,175 @@
+import type { StandardSchemaV1 } from "../src/types";
+import {
+  createH3,
+  defineOpenAPIHandler,
+  generateOpenAPI,
+  withBase,
+} from "../src";
+import { describeMatrix } from "./_setup";
+
+function standardSchema(jsonSchema: Record<string, unknown>) {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value) => ({ value }),
+      jsonSchema: {
+        input: () => jsonSchema,
+        output: () => jsonSchema,
+      },
+    },
+  } as StandardSchemaV1;
+}
+
+describeMatrix("openapi", (t, { it, expect }) => {
+  const userJSONSchema = {
+    type: "object",
+    properties: { id: { type: "number" }, name: { type: "string" } },
+  };
+  const userSchema = standardSchema(userJSONSchema);
+
+  it("generates paths from routes", () => {
+    t.app
+      .use(() => {})
+      .all("/any", () => "any")
+      .get("/users", () => [], {
+        openapi: {
+          summary: "List users",
+          tags: ["users"],
+          query: {
+            type: "object",
+            properties: { page: { type: "number" }, q: { type: "string" } },
+            required: ["page"],
+          },
+        },
+      })
+      .post("/users", () => ({}), {
+        openapi: {
+          body: userSchema,
+          responses: { 201: { description: "Created", schema: userSchema } },
+        },
+      })
+      .get("/users/:id", () => ({}), {
+        name: "user.show",
+        openapi: {
+          params: {
+            type: "object",
+            properties: { id: { type: "number" } },
+          },
+          responses: { 200: { schema: userSchema }, 404: {} },
+        },
+      })
+      .get("/files/**:path", () => "file")
+      .get("/static/*/**", () => "static");
+
+    const doc = generateOpenAPI(t.app, { info: { title: "Test API" } });
+
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.info).toEqual({ title: "Test API", version: "1.0.0" });
+    expect(Object.keys(doc.paths)).toEqual([
+      "/users",
+      "/users/{id}",
+      "/files/{path}",
+      "/static/{_0}/{_}",
+    ]);
+    expect(doc.paths["/users"].get).toEqual({
+      summary: "List users",
+      tags: ["users"],
+      parameters: [
+        {
+          name: "page",
+          in: "query",
+          required: true,
+          schema: { type: "number" },
+        },
+        { name: "q", in: "query", required: false, schema: { type: "string" } },
+      ],
+    });
+    expect(doc.paths["/users"].post).toEqual({
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: userJSONSchema,
+          },
+        },
+      },
+      responses: {
+        201: {
+          description: "Created",
+          content: {
+            "application/json": { schema: userJSONSchema },
+          },
+        },
+      },
+    });
+    expect(doc.paths["/users/{id}"].get).toMatchObject({
+      operationId: "user.show",
+      parameters: [
+        { name: "id", in: "path", required: true, schema: { type: "number" } },
+      ],
+      responses: { 404: { description: "" } },
+    });
+    expect(doc.paths["/files/{path}"].get).toEqual({
+      parameters: [
+        {
+          name: "path",
+          in: "path",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+    });
+  });
+
+  it("includes routes of mounted apps", () => {
+    const api = createH3().get("/hello/:name", () => "Hello", {
+      openapi: { summary: "Say hello" },
+    });
+    t.app.use("/api/**", withBase("/api", api));
+
+    const doc = generateOpenAPI(t.app);
+    expect(doc.paths).toEqual({
+      "/api/hello/{name}": {
+        get: {
+          summary: "Say hello",
+          parameters: [
+            {
+              name: "name",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it("converts standard schemas with custom converter", () => {
+    t.app.post("/items", () => "ok", {
+      openapi: { body: standardSchema({}) },
+    });
+    const doc = generateOpenAPI(t.app, {
+      toJSONSchema: (_schema, io) => ({ description: io }),
+    });
+    expect(doc.paths["/items"].post).toMatchObject({
+      requestBody: {
+        content: { "application/json": { schema: { description: "input" } } },
+      },
+    });
+  });
+
+  it("serves /openapi.json", async () => {
+    t.app
+      .get("/openapi.json", defineOpenAPIHandler(t.app))
+      .get("/ping", () => "pong", { openapi: { summary: "Ping" } });
+
+    const res = await t.fetch("/openapi.json");
+    expect(res.headers.get("content-type")).toMatch("application/json");
+    expect(await res.json()).toMatchObject({
+      openapi: "3.1.0",
+      paths: { "/ping": { get: { summary: "Ping" } } },
+    });
+  });
+});
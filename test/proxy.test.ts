@@ -71,6 +71,25 @@ describeMatrix("proxy", (t, { it, expect, describe }) => {
         `);
       });
 
+      it("rejects request body larger than maxBodySize", async () => {
+        const debug = vi.fn();
+        t.app.all("/debug", debug);
+        t.app.all("/", (event) => {
+          return proxyRequest(event, t.url + "/debug", {
+            fetch,
+            maxBodySize: 4,
+          });
+        });
+
+        const result = await t.fetch(t.url + "/", {
+          method: "POST",
+          body: "too large",
+        });
+
+        expect(result.status).toBe(413);
+        expect(debug).not.toHaveBeenCalled();
+      });
+
       it("can proxy binary request", async () => {
         t.app.all("/debug", async (event) => {
           const body = await event.request.arrayBuffer();
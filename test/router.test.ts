@@ -1,6 +1,6 @@
 import type { H3 } from "../src/types";
 import { beforeEach } from "vitest";
-import { getRouterParams, getRouterParam, createH3 } from "../src";
+import { getRouterParams, getRouterParam, createH3, withBase } from "../src";
 import { describeMatrix } from "./_setup";
 
 describeMatrix("router", (t, { it, expect, describe }) => {
@@ -62,6 +62,67 @@ describeMatrix("router", (t, { it, expect, describe }) => {
     expect(res.status).toEqual(404);
   });
 
+  it("Responds 405 for not allowed method", async () => {
+    const res = await t.fetch("/test", { method: "DELETE" });
+    expect(res.status).toEqual(405);
+    expect(res.headers.get("allow")).toEqual("GET, HEAD, POST, OPTIONS");
+    expect(await res.json()).toMatchObject({
+      statusCode: 405,
+      statusMessage: "Method Not Allowed",
+    });
+  });
+
+  it("Answers OPTIONS for routes of other methods", async () => {
+    const res = await t.fetch("/many/routes", { method: "OPTIONS" });
+    expect(res.status).toEqual(204);
+    expect(res.headers.get("allow")).toEqual("GET, HEAD, POST, OPTIONS");
+  });
+
+  it("Responds 405 for routes of mounted apps", async () => {
+    const api = createH3();
+    api.get("/api/users", () => "users");
+    api.post("/api/users", () => "created");
+    t.app.all("/api/**", api);
+    const nested = createH3();
+    nested.put("/nested/item", () => "updated");
+    t.app.use(nested);
+
+    const res = await t.fetch("/api/users", { method: "DELETE" });
+    expect(res.status).toEqual(405);
+    expect(res.headers.get("allow")).toEqual("GET, HEAD, POST, OPTIONS");
+
+    const res2 = await t.fetch("/nested/item");
+    expect(res2.status).toEqual(405);
+    expect(res2.headers.get("allow")).toEqual("PUT, OPTIONS");
+
+    expect((await t.fetch("/api/other")).status).toEqual(404);
+
+    const based = createH3();
+    based.get("/users", () => "users");
+    t.app.use("/based/**", withBase("/based", based.handler));
+
+    const res3 = await t.fetch("/based/users", { method: "POST" });
+    expect(res3.status).toEqual(405);
+    expect(res3.headers.get("allow")).toEqual("GET, HEAD, OPTIONS");
+
+    const res4 = await t.fetch("/based/users", { method: "OPTIONS" });
+    expect(res4.status).toEqual(204);
+    expect(res4.headers.get("allow")).toEqual("GET, HEAD, OPTIONS");
+  });
+
+  it("Answers HEAD with GET routes", async () => {
+    const res = await t.fetch("/test", { method: "HEAD" });
+    expect(res.status).toEqual(200);
+    expect(await res.text()).toEqual("");
+  });
+
+  it("Uses explicit OPTIONS route when registered", async () => {
+    t.app.options("/test", () => "Options");
+    const res = await t.fetch("/test", { method: "OPTIONS" });
+    expect(res.status).toEqual(200);
+    expect(await res.text()).toEqual("Options");
+  });
+
   it("Handle shadowed route", async () => {
     t.app.post(
       "/test/123",
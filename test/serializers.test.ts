@@ -0,0 +1,101 @@
+import type { ResponseSerializer } from "../src/types";
+import { vi } from "vitest";
+import { negotiateType } from "../src";
+import { describeMatrix } from "./_setup";
+
+describeMatrix("serializers", (t, { it, expect }) => {
+  const taggedSerializer: ResponseSerializer = {
+    type: "application/x-tagged",
+    test: (_value, event) =>
+      negotiateType(event, ["application/json", "application/x-tagged"]) ===
+      "application/x-tagged",
+    serialize: (value) =>
+      JSON.stringify(value, (_key, v) =>
+        typeof v === "bigint" ? { $bigint: v.toString() } : v,
+      ),
+  };
+
+  const mapSerializer: ResponseSerializer = {
+    test: (value) => value instanceof Map,
+    serialize: (value, event) => {
+      event.response.headers.set("content-type", "application/json");
+      return JSON.stringify(Object.fromEntries(value as Map<string, unknown>));
+    },
+  };
+
+  it("uses JSON by default", async () => {
+    t.app.config.serializers = [taggedSerializer];
+    t.app.get("/", () => ({ id: 1 }));
+
+    const res = await t.fetch("/");
+    expect(res.headers.get("content-type")).toMatch("application/json");
+    expect(res.headers.get("vary")).toBe("accept");
+    expect(await res.json()).toEqual({ id: 1 });
+
+    const anyRes = await t.fetch("/", { headers: { accept: "*/*" } });
+    expect(anyRes.headers.get("content-type")).toMatch("application/json");
+  });
+
+  it("selects serializer by accept header", async () => {
+    t.app.config.serializers = [taggedSerializer];
+    t.app.get("/", () => ({ id: 1n }));
+
+    const res = await t.fetch("/", {
+      headers: { accept: "application/x-tagged, application/json;q=0.5" },
+    });
+    expect(res.headers.get("content-type")).toBe("application/x-tagged");
+    expect(await res.text()).toBe('{"id":{"$bigint":"1"}}');
+  });
+
+  it("selects serializer by value", async () => {
+    t.app.config.serializers = [mapSerializer];
+    t.app.get("/map", () => new Map([["a", 1]]));
+    t.app.get("/object", () => ({ b: 2 }));
+
+    const mapRes = await t.fetch("/map");
+    expect(await mapRes.json()).toEqual({ a: 1 });
+
+    const objectRes = await t.fetch("/object");
+    expect(await objectRes.json()).toEqual({ b: 2 });
+  });
+
+  it("does not serialize natively supported bodies", async () => {
+    const serialize = vi.fn(() => "serialized");
+    t.app.config.serializers = [{ serialize }];
+    const bodies: Record<string, () => unknown> = {
+      string: () => "text",
+      response: () => new Response("text"),
+      blob: () => new Blob(["text"]),
+      buffer: () => new TextEncoder().encode("text").buffer,
+      uint16: () => new Uint16Array(new TextEncoder().encode("text").buffer),
+      dataview: () => new DataView(new TextEncoder().encode("text").buffer),
+      stream: () => new Blob(["text"]).stream(),
+      params: () => new URLSearchParams({ text: "" }),
+    };
+    for (const [name, body] of Object.entries(bodies)) {
+      t.app.get(`/${name}`, body);
+    }
+    t.app.get("/form", () => {
+      const form = new FormData();
+      form.append("text", "text");
+      return form;
+    });
+    t.app.get("/data", () => [1, 2]);
+
+    for (const name of Object.keys(bodies)) {
+      expect(await (await t.fetch(`/${name}`)).text()).toMatch("text");
+    }
+    expect(await (await t.fetch("/form")).text()).toMatch('name="text"');
+    expect(await (await t.fetch("/data")).text()).toBe("serialized");
+    expect(serialize).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses jsonReplacer", async () => {
+    t.app.config.jsonReplacer = (_key, value) =>
+      typeof value === "bigint" ? value.toString() : value;
+    t.app.get("/", () => ({ id: 9_007_199_254_740_993n }));
+
+    const res = await t.fetch("/");
+    expect(await res.json()).toEqual({ id: "9007199254740993" });
+  });
+});
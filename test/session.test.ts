@@ -1,6 +1,12 @@
 import type { SessionConfig } from "../src/types";
-import { beforeEach } from "vitest";
-import { useSession, readBody, createH3 } from "../src";
+import { afterEach, beforeEach, vi } from "vitest";
+import {
+  useSession,
+  readBody,
+  createH3,
+  clearSession,
+  createMemorySessionStore,
+} from "../src";
 import { describeMatrix } from "./_setup";
 
 describeMatrix("session", (t, { it, expect }) => {
@@ -82,3 +88,430 @@ describeMatrix("session", (t, { it, expect }) => {
     });
   });
 });
+
+describeMatrix("session store", (t, { it, expect }) => {
+  const store = createMemorySessionStore();
+  const storeConfig: SessionConfig = {
+    name: "h3-test",
+    password: "1234567123456712345671234567123456712345671234567",
+    store,
+  };
+  let storeCookie = "";
+
+  beforeEach(() => {
+    t.app.all("/store", async (event) => {
+      const session = await useSession(event, storeConfig);
+      if (event.request.method === "POST") {
+        await session.update((await readBody(event)) as any);
+      }
+      if (event.request.method === "DELETE") {
+        await session.clear();
+      }
+      const regenerate = event.url.searchParams.get("regenerate");
+      if (regenerate !== null) {
+        await session.regenerate({ keepData: regenerate !== "discard" });
+      }
+      return { id: session.id, data: session.data };
+    });
+  });
+
+  it("keeps session data out of the cookie", async () => {
+    const res = await t.fetch("/store", {
+      method: "POST",
+      body: JSON.stringify({ secret: "x".repeat(4096) }),
+    });
+    storeCookie = res.headers.getSetCookie()[0].split(";")[0];
+    const { id } = await res.json();
+    expect(storeCookie.length).toBeLessThan(1024);
+    expect(await store.get(id)).toMatchObject({
+      id,
+      data: { secret: "x".repeat(4096) },
+    });
+  });
+
+  it("loads session data from the store", async () => {
+    const res = await t.fetch("/store", { headers: { cookie: storeCookie } });
+    expect(await res.json()).toMatchObject({
+      data: { secret: "x".repeat(4096) },
+    });
+  });
+
+  it("starts a new session when the record is deleted", async () => {
+    const res = await t.fetch("/store", { headers: { cookie: storeCookie } });
+    const { id } = await res.json();
+    await store.delete(id);
+    const res2 = await t.fetch("/store", {
+      headers: { cookie: storeCookie },
+    });
+    const session = await res2.json();
+    expect(session.id).not.toBe(id);
+    expect(session.data).toEqual({});
+  });
+
+  it("deletes the record on clear", async () => {
+    const res = await t.fetch("/store", {
+      method: "POST",
+      body: JSON.stringify({ foo: "bar" }),
+    });
+    const cookie = res.headers.getSetCookie()[0].split(";")[0];
+    const { id } = await res.json();
+    expect(await store.get(id)).toBeDefined();
+    await t.fetch("/store", { method: "DELETE", headers: { cookie } });
+    expect(await store.get(id)).toBeUndefined();
+  });
+
+  it("clearSession deletes the record without loading the session", async () => {
+    t.app.all("/logout", async (event) => {
+      await clearSession(event, storeConfig);
+      return "ok";
+    });
+    const res = await t.fetch("/store", {
+      method: "POST",
+      body: JSON.stringify({ foo: "bar" }),
+    });
+    const cookie = res.headers.getSetCookie()[0].split(";")[0];
+    const { id } = await res.json();
+    await t.fetch("/logout", { headers: { cookie } });
+    expect(await store.get(id)).toBeUndefined();
+  });
+
+  it("regenerates the session id and deletes the old record", async () => {
+    const res = await t.fetch("/store", {
+      method: "POST",
+      body: JSON.stringify({ foo: "bar" }),
+    });
+    const cookie = res.headers.getSetCookie()[0].split(";")[0];
+    const { id } = await res.json();
+
+    const res2 = await t.fetch("/store?regenerate", { headers: { cookie } });
+    const cookie2 = res2.headers.getSetCookie()[0].split(";")[0];
+    const session = await res2.json();
+    expect(session.id).not.toBe(id);
+    expect(session.data).toEqual({ foo: "bar" });
+    expect(await store.get(id)).toBeUndefined();
+
+    // The old cookie no longer resolves to the session
+    const res3 = await t.fetch("/store", { headers: { cookie } });
+    expect((await res3.json()).data).toEqual({});
+    const res4 = await t.fetch("/store", { headers: { cookie: cookie2 } });
+    expect(await res4.json()).toEqual(session);
+  });
+
+  it("regenerates the session id discarding data", async () => {
+    const res = await t.fetch("/store", {
+      method: "POST",
+      body: JSON.stringify({ foo: "bar" }),
+    });
+    const cookie = res.headers.getSetCookie()[0].split(";")[0];
+    const { id } = await res.json();
+    const res2 = await t.fetch("/store?regenerate=discard", {
+      headers: { cookie },
+    });
+    const session = await res2.json();
+    expect(session.id).not.toBe(id);
+    expect(session.data).toEqual({});
+  });
+
+  it("evicts the least recently used sessions", async () => {
+    const lru = createMemorySessionStore({ max: 2 });
+    await lru.set("a", { id: "a", createdAt: 0, data: {} });
+    await lru.set("b", { id: "b", createdAt: 0, data: {} });
+    await lru.get("a");
+    await lru.set("c", { id: "c", createdAt: 0, data: {} });
+    expect(await lru.get("a")).toBeDefined();
+    expect(await lru.get("b")).toBeUndefined();
+    expect(await lru.get("c")).toBeDefined();
+  });
+
+  it("expires sessions after maxAge", async () => {
+    const lru = createMemorySessionStore();
+    await lru.set("a", { id: "a", createdAt: 0, data: {} }, 0.001);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await lru.get("a")).toBeUndefined();
+  });
+});
+
+describeMatrix("session password rotation", (t, { it, expect }) => {
+  const oldPassword = "1234567123456712345671234567123456712345671234567";
+  const newPassword = "7654321765432176543217654321765432176543217654321";
+
+  let config: SessionConfig;
+
+  beforeEach(() => {
+    t.app.all("/", async (event) => {
+      const session = await useSession(event, config);
+      if (event.request.method === "POST") {
+        await session.update((await readBody(event)) as any);
+      }
+      return { id: session.id, data: session.data };
+    });
+  });
+
+  it("unseals with any listed password and re-seals with the newest", async () => {
+    config = { name: "h3-test", password: oldPassword };
+    const res = await t.fetch("/", {
+      method: "POST",
+      body: JSON.stringify({ foo: "bar" }),
+    });
+    const cookie = res.headers.getSetCookie()[0].split(";")[0];
+    const session = await res.json();
+
+    config = {
+      name: "h3-test",
+      password: [
+        { id: "default", secret: oldPassword },
+        { id: "v2", secret: newPassword },
+      ],
+    };
+    const res2 = await t.fetch("/", { headers: { cookie } });
+    expect(await res2.json()).toEqual(session);
+    const cookie2 = res2.headers.getSetCookie()[0].split(";")[0];
+    expect(cookie2).toMatch(/^h3-test=Fe26\.2\*v2\*/);
+
+    config = { name: "h3-test", password: { v2: newPassword } };
+    const res3 = await t.fetch("/", { headers: { cookie: cookie2 } });
+    expect(await res3.json()).toEqual(session);
+    expect(res3.headers.getSetCookie()).toHaveLength(0);
+
+    // Tokens sealed with a removed password are rejected
+    const res4 = await t.fetch("/", { headers: { cookie } });
+    expect((await res4.json()).id).not.toBe(session.id);
+  });
+});
+
+describeMatrix("session expiry", (t, { it, expect }) => {
+  let config: SessionConfig;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    t.app.all("/", async (event) => {
+      const session = await useSession(event, config);
+      return { id: session.id, expiryReason: session.expiryReason };
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const baseConfig = {
+    name: "h3-test",
+    password: "1234567123456712345671234567123456712345671234567",
+  };
+
+  const fetchSession = async (cookie?: string) => {
+    const res = await t.fetch("/", { headers: cookie ? { cookie } : {} });
+    const setCookie = res.headers.getSetCookie()[0];
+    return {
+      ...(await res.json()),
+      setCookie,
+      cookie: setCookie?.split(";")[0] || cookie,
+    };
+  };
+
+  it("reports why a new session was created", async () => {
+    config = { ...baseConfig, maxAge: 10 };
+    const first = await fetchSession();
+    expect(first.expiryReason).toBe("missing");
+
+    const same = await fetchSession(first.cookie);
+    expect(same.id).toBe(first.id);
+    expect(same.expiryReason).toBeUndefined();
+
+    const tampered = await fetchSession(first.cookie.slice(0, -4) + "AAAA");
+    expect(tampered.expiryReason).toBe("tampered");
+
+    vi.advanceTimersByTime(11_000);
+    const expired = await fetchSession(first.cookie);
+    expect(expired.id).not.toBe(first.id);
+    expect(expired.expiryReason).toBe("expired");
+  });
+
+  it("extends maxAge on activity with rolling", async () => {
+    config = { ...baseConfig, maxAge: 10, rolling: true, touchInterval: 5 };
+    const first = await fetchSession();
+
+    vi.advanceTimersByTime(3000);
+    const throttled = await fetchSession(first.cookie);
+    expect(throttled.id).toBe(first.id);
+    expect(throttled.setCookie).toBeUndefined();
+
+    vi.advanceTimersByTime(3000);
+    const touched = await fetchSession(first.cookie);
+    expect(touched.id).toBe(first.id);
+    expect(touched.setCookie).toMatch(
+      `Expires=${new Date(Date.now() + 10_000).toUTCString()}`,
+    );
+
+    vi.advanceTimersByTime(8000);
+    const alive = await fetchSession(touched.cookie);
+    expect(alive.id).toBe(first.id);
+  });
+
+  it("expires idle sessions", async () => {
+    config = { ...baseConfig, idleTimeout: 10 };
+    const first = await fetchSession();
+
+    vi.advanceTimersByTime(6000);
+    const touched = await fetchSession(first.cookie);
+    expect(touched.id).toBe(first.id);
+
+    vi.advanceTimersByTime(6000);
+    const alive = await fetchSession(touched.cookie);
+    expect(alive.id).toBe(first.id);
+
+    vi.advanceTimersByTime(11_000);
+    const expired = await fetchSession(alive.cookie);
+    expect(expired.id).not.toBe(first.id);
+    expect(expired.expiryReason).toBe("expired");
+  });
+
+  it("refreshes the store record with rolling", async () => {
+    const store = createMemorySessionStore();
+    config = { ...baseConfig, maxAge: 10, rolling: true, store };
+    const first = await fetchSession();
+
+    vi.advanceTimersByTime(6000);
+    const touched = await fetchSession(first.cookie);
+    expect(touched.id).toBe(first.id);
+
+    vi.advanceTimersByTime(6000);
+    expect(await store.get(first.id)).toBeDefined();
+    const alive = await fetchSession(touched.cookie);
+    expect(alive.id).toBe(first.id);
+  });
+});
+
+describeMatrix(
+  "session cookie chunks",
+  (t, { it, expect }) => {
+    let config: SessionConfig;
+
+    beforeEach(() => {
+      config = {
+        name: "h3-test",
+        password: "1234567123456712345671234567123456712345671234567",
+      };
+      t.app.all("/", async (event) => {
+        const session = await useSession(event, config);
+        if (event.request.method === "POST") {
+          await session.update((await readBody(event)) as any);
+        }
+        if (event.request.method === "DELETE") {
+          await session.clear();
+        }
+        return { id: session.id, data: session.data };
+      });
+    });
+
+    // Turns set-cookie headers into a cookie header, like a browser would
+    const toCookieHeader = (res: Response) =>
+      res.headers
+        .getSetCookie()
+        .filter((cookie) => !cookie.includes("Max-Age=0"))
+        .map((cookie) => cookie.split(";")[0])
+        .join("; ");
+
+    const getCookieNames = (res: Response) =>
+      res.headers.getSetCookie().map((cookie) => {
+        const name = cookie.split("=")[0];
+        return cookie.includes("Max-Age=0") ? `-${name}` : name;
+      });
+
+    it("splits large sessions into chunks and reassembles them", async () => {
+      const res = await t.fetch("/", {
+        method: "POST",
+        body: JSON.stringify({ big: "x".repeat(5000) }),
+      });
+      // The cookie written for the new session is replaced by the chunks
+      expect(getCookieNames(res)).toEqual([
+        "h3-test.0",
+        "h3-test.1",
+        "-h3-test",
+      ]);
+      const session = await res.json();
+
+      const res2 = await t.fetch("/", {
+        headers: { cookie: toCookieHeader(res) },
+      });
+      expect(await res2.json()).toEqual(session);
+    });
+
+    it("deletes stale chunks when the session shrinks", async () => {
+      const res = await t.fetch("/", {
+        method: "POST",
+        body: JSON.stringify({ big: "x".repeat(5000) }),
+      });
+      const res2 = await t.fetch("/", {
+        method: "POST",
+        headers: { cookie: toCookieHeader(res) },
+        body: JSON.stringify({ big: "" }),
+      });
+      expect(getCookieNames(res2)).toEqual([
+        "h3-test",
+        "-h3-test.0",
+        "-h3-test.1",
+      ]);
+
+      const res3 = await t.fetch("/", {
+        method: "POST",
+        headers: { cookie: toCookieHeader(res2) },
+        body: JSON.stringify({ big: "x".repeat(5000) }),
+      });
+      expect(getCookieNames(res3)).toEqual([
+        "h3-test.0",
+        "h3-test.1",
+        "-h3-test",
+      ]);
+    });
+
+    it("deletes chunks on clear", async () => {
+      const res = await t.fetch("/", {
+        method: "POST",
+        body: JSON.stringify({ big: "x".repeat(5000) }),
+      });
+      const res2 = await t.fetch("/", {
+        method: "DELETE",
+        headers: { cookie: toCookieHeader(res) },
+      });
+      expect(getCookieNames(res2)).toEqual([
+        "h3-test",
+        "-h3-test.0",
+        "-h3-test.1",
+      ]);
+    });
+
+    it("does not split cookies when disabled", async () => {
+      config.cookieChunks = false;
+      const res = await t.fetch("/", {
+        method: "POST",
+        body: JSON.stringify({ big: "x".repeat(5000) }),
+      });
+      expect(getCookieNames(res)).toEqual(["h3-test"]);
+    });
+
+    it("warns when the session exceeds maxSize", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      config.cookieChunks = { maxSize: 4000 };
+      const res = await t.fetch("/", {
+        method: "POST",
+        body: JSON.stringify({ big: "x".repeat(5000) }),
+      });
+      expect(res.status).toBe(200);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("exceeding the 4000 characters limit"),
+      );
+      warn.mockRestore();
+    });
+
+    it("throws when the session exceeds maxSize", async () => {
+      config.cookieChunks = { maxSize: 4000, onMaxSize: "error" };
+      const res = await t.fetch("/", {
+        method: "POST",
+        body: JSON.stringify({ big: "x".repeat(5000) }),
+      });
+      expect(res.status).toBe(500);
+    });
+  },
+  { allowUnhandledErrors: true },
+);
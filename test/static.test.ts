@@ -1,8 +1,18 @@
-import { beforeEach, vi } from "vitest";
-import { serveStatic } from "../src";
+import {
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
+import { afterAll, beforeAll, beforeEach, vi } from "vitest";
+import { serveStatic, serveStaticDir } from "../src";
 import { describeMatrix } from "./_setup";
 
-describeMatrix("serve static", (t, { it, expect }) => {
+describeMatrix("serve static", (t, { it, expect, describe }) => {
   beforeEach(() => {
     const serveStaticOptions = {
       getContents: vi.fn((id) =>
@@ -52,6 +62,18 @@ describeMatrix("serve static", (t, { it, expect }) => {
     expect(res.headers.get("content-length")).toBe("18");
   });
 
+  it("Honors q-values of accept-encoding", async () => {
+    const res = await t.fetch("/test.png", {
+      headers: { "accept-encoding": "gzip;q=0.5, br" },
+    });
+    expect(await res.text()).toBe("asset:/test.png.br");
+
+    const identityRes = await t.fetch("/test.png", {
+      headers: { "accept-encoding": "gzip;q=0, br;q=0" },
+    });
+    expect(await identityRes.text()).toBe("asset:/test.png");
+  });
+
   it("Can serve asset (HEAD)", async () => {
     const headRes = await t.fetch("/test.png", {
       method: "HEAD",
@@ -87,6 +109,20 @@ describeMatrix("serve static", (t, { it, expect }) => {
     expect(await res.text()).toBe("");
   });
 
+  it("Handles cache (weak etag list)", async () => {
+    const res = await t.fetch("/test.png", {
+      headers: { "if-none-match": '"abc", w/123' },
+    });
+    expect(res.status).toEqual(304);
+  });
+
+  it("Returns 412 if precondition fails", async () => {
+    const res = await t.fetch("/test.png", {
+      headers: { "if-match": '"abc"' },
+    });
+    expect(res.status).toEqual(412);
+  });
+
   it("Returns 404 if not found", async () => {
     const res = await t.fetch("/404/test.png");
     expect(res.status).toEqual(404);
@@ -99,4 +135,439 @@ describeMatrix("serve static", (t, { it, expect }) => {
     const res = await t.fetch("/test.png", { method: "POST" });
     expect(res.status).toEqual(405);
   });
+
+  describe("range requests", () => {
+    const data = "0123456789";
+    const meta = {
+      type: "text/plain",
+      etag: '"abc"',
+      mtime: 1_700_000_000_000,
+      size: data.length,
+    };
+    const getRangeContents = vi.fn(
+      (_id: string, range?: { start: number; end: number }) =>
+        range ? data.slice(range.start, range.end + 1) : data,
+    );
+
+    beforeEach(() => {
+      getRangeContents.mockClear();
+      t.app.all("/media/**", (event) =>
+        serveStatic(event, { getMeta: () => meta, getContents: () => data }),
+      );
+      t.app.all("/ranged/**", (event) =>
+        serveStatic(event, {
+          getMeta: () => meta,
+          getContents: getRangeContents,
+          ranges: true,
+        }),
+      );
+      t.app.all("/stream/**", (event) =>
+        serveStatic(event, {
+          getMeta: () => meta,
+          getContents: () =>
+            new ReadableStream({
+              start(controller) {
+                for (const chunk of ["012", "3456", "789"]) {
+                  controller.enqueue(new TextEncoder().encode(chunk));
+                }
+                controller.close();
+              },
+            }),
+        }),
+      );
+    });
+
+    it("advertises accept-ranges", async () => {
+      const res = await t.fetch("/media/file.txt");
+      expect(res.status).toBe(200);
+      expect(res.headers.get("accept-ranges")).toBe("bytes");
+      expect(await res.text()).toBe(data);
+    });
+
+    it("serves a single range", async () => {
+      for (const [range, expected, contentRange] of [
+        ["bytes=2-5", "2345", "bytes 2-5/10"],
+        ["bytes=7-", "789", "bytes 7-9/10"],
+        ["bytes=-3", "789", "bytes 7-9/10"],
+        ["bytes=8-100", "89", "bytes 8-9/10"],
+      ]) {
+        const res = await t.fetch("/media/file.txt", { headers: { range } });
+        expect(res.status).toBe(206);
+        expect(res.headers.get("content-range")).toBe(contentRange);
+        expect(res.headers.get("content-length")).toBe(`${expected.length}`);
+        expect(await res.text()).toBe(expected);
+      }
+    });
+
+    it("slices streams", async () => {
+      const res = await t.fetch("/stream/file.txt", {
+        headers: { range: "bytes=2-7" },
+      });
+      expect(res.status).toBe(206);
+      expect(await res.text()).toBe("234567");
+    });
+
+    it("passes the range to getContents", async () => {
+      const res = await t.fetch("/ranged/file.txt", {
+        headers: { range: "bytes=1-3" },
+      });
+      expect(await res.text()).toBe("123");
+      expect(getRangeContents).toHaveBeenCalledWith("/ranged/file.txt", {
+        start: 1,
+        end: 3,
+      });
+    });
+
+    it("does not pass the range to getContents by default", async () => {
+      t.app.all("/full/**", (event) =>
+        serveStatic(event, {
+          getMeta: () => meta,
+          getContents: getRangeContents,
+        }),
+      );
+      const res = await t.fetch("/full/file.txt", {
+        headers: { range: "bytes=1-3" },
+      });
+      expect(await res.text()).toBe("123");
+      expect(getRangeContents).toHaveBeenCalledWith("/full/file.txt");
+    });
+
+    it("serves multiple ranges as multipart/byteranges", async () => {
+      const res = await t.fetch("/media/file.txt", {
+        headers: { range: "bytes=0-1, 5-6" },
+      });
+      expect(res.status).toBe(206);
+      const type = res.headers.get("content-type")!;
+      expect(type).toMatch(/^multipart\/byteranges; boundary=/);
+      const boundary = type.split("boundary=")[1];
+      const body = await res.text();
+      expect(res.headers.get("content-length")).toBe(`${body.length}`);
+      expect(body).toBe(
+        [
+          `--${boundary}`,
+          "Content-Type: text/plain",
+          "Content-Range: bytes 0-1/10",
+          "",
+          "01",
+          `--${boundary}`,
+          "Content-Type: text/plain",
+          "Content-Range: bytes 5-6/10",
+          "",
+          "56",
+          `--${boundary}--`,
+          "",
+        ].join("\r\n"),
+      );
+    });
+
+    it("returns 416 for unsatisfiable ranges", async () => {
+      const res = await t.fetch("/media/file.txt", {
+        headers: { range: "bytes=20-30" },
+      });
+      expect(res.status).toBe(416);
+      expect(res.headers.get("content-range")).toBe("bytes */10");
+      const body = await res.text();
+      // Only the length of the error body (if any) may be sent
+      expect([null, `${new TextEncoder().encode(body).length}`]).toContain(
+        res.headers.get("content-length"),
+      );
+      expect(JSON.parse(body).statusCode).toBe(416);
+    });
+
+    it("ignores invalid ranges", async () => {
+      for (const range of ["items=0-1", "bytes=5-2", "bytes=abc"]) {
+        const res = await t.fetch("/media/file.txt", { headers: { range } });
+        expect(res.status).toBe(200);
+        expect(await res.text()).toBe(data);
+      }
+    });
+
+    it("ignores range for HEAD requests", async () => {
+      const res = await t.fetch("/media/file.txt", {
+        method: "HEAD",
+        headers: { range: "bytes=0-1" },
+      });
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-length")).toBe("10");
+    });
+
+    it("validates if-range", async () => {
+      const matching = ['"abc"', new Date(meta.mtime).toUTCString()];
+      for (const ifRange of matching) {
+        const res = await t.fetch("/media/file.txt", {
+          headers: { range: "bytes=0-1", "if-range": ifRange },
+        });
+        expect(res.status).toBe(206);
+      }
+      const stale = [
+        '"xyz"',
+        'W/"abc"',
+        new Date(meta.mtime - 60_000).toUTCString(),
+      ];
+      for (const ifRange of stale) {
+        const res = await t.fetch("/media/file.txt", {
+          headers: { range: "bytes=0-1", "if-range": ifRange },
+        });
+        expect(res.status).toBe(200);
+        expect(await res.text()).toBe(data);
+      }
+    });
+  });
+
+  describe("spa fallback and directory listing", () => {
+    const assets: Record<string, { type?: string; isDirectory?: boolean }> = {
+      "/index.html": { type: "text/html" },
+      "/docs": { isDirectory: true },
+      "/docs/guide.md": { type: "text/markdown" },
+      "/docs/api": { isDirectory: true },
+      "/app": { isDirectory: true },
+      "/app/index.html": { type: "text/html" },
+    };
+    const getEntries = vi.fn(() => [
+      { name: "guide.md", size: 2048 },
+      { name: "api", isDirectory: true },
+      { name: "<b>.txt", size: 1 },
+    ]);
+
+    beforeEach(() => {
+      t.app.all("/spa/**", (event) =>
+        serveStatic(event, {
+          getMeta: (id) => assets[id.slice(4) || "/"],
+          getContents: (id) => `asset:${id.slice(4)}`,
+          spaFallback: {
+            path: "/spa/index.html",
+            exclude: ["/spa/api/**", /^\/spa\/admin/],
+          },
+        }),
+      );
+      t.app.all("/list/**", (event) =>
+        serveStatic(event, {
+          getMeta: (id) => assets[id.slice(5) || "/"],
+          getContents: (id) => `asset:${id.slice(5)}`,
+          directoryListing: { getEntries },
+        }),
+      );
+    });
+
+    it("serves index.html for unknown paths", async () => {
+      const res = await t.fetch("/spa/dashboard/settings");
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toBe("text/html");
+      expect(await res.text()).toBe("asset:/index.html");
+    });
+
+    it("serves existing assets and index files", async () => {
+      expect(await (await t.fetch("/spa/docs/guide.md")).text()).toBe(
+        "asset:/docs/guide.md",
+      );
+      expect(await (await t.fetch("/spa/app")).text()).toBe(
+        "asset:/app/index.html",
+      );
+    });
+
+    it("does not fall back for excluded paths and assets", async () => {
+      for (const path of [
+        "/spa/api",
+        "/spa/api/users",
+        "/spa/admin/users",
+        "/spa/missing.js",
+      ]) {
+        expect((await t.fetch(path)).status).toBe(404);
+      }
+    });
+
+    it("renders html directory listing", async () => {
+      const res = await t.fetch("/list/docs", {
+        headers: { accept: "text/html,*/*" },
+      });
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toBe("text/html; charset=utf-8");
+      const html = await res.text();
+      expect(getEntries).toHaveBeenCalledWith("/list/docs");
+      expect(html).toContain("<title>Index of /list/docs/</title>");
+      expect(html).toContain('<a href="/list/docs/api/">api/</a>');
+      expect(html).toContain('<a href="/list/docs/guide.md">guide.md</a>');
+      expect(html).toContain("2.0 KB");
+      expect(html).toContain("&#60;b&#62;.txt");
+      expect(html.indexOf("api/")).toBeLessThan(html.indexOf("guide.md"));
+    });
+
+    it("renders json directory listing", async () => {
+      const res = await t.fetch("/list/docs", {
+        headers: { accept: "application/json" },
+      });
+      expect(res.headers.get("vary")).toContain("accept");
+      expect(await res.json()).toEqual({
+        path: "/list/docs",
+        entries: [
+          { name: "api", type: "directory" },
+          { name: "<b>.txt", type: "file", size: 1 },
+          { name: "guide.md", type: "file", size: 2048 },
+        ],
+      });
+    });
+
+    it("prefers index files over listing", async () => {
+      expect(await (await t.fetch("/list/app")).text()).toBe(
+        "asset:/app/index.html",
+      );
+    });
+  });
+});
+
+describeMatrix("serve static dir", (t, { it, expect }) => {
+  let dir: string;
+  let root: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "h3-static-"));
+    root = join(dir, "public");
+    const files: Record<string, string> = {
+      "index.html": "<h1>home</h1>",
+      "app.js": "console.log('app')",
+      "404.html": "<h1>not found</h1>",
+      "docs/index.html": "<h1>docs</h1>",
+      "_assets/chunk.js": "chunk",
+      "files/a.txt": "a",
+      "files/.secret": "secret",
+      "files/sub/b.txt": "b",
+      ".env": "SECRET=1",
+      "../secret.txt": "secret",
+    };
+    for (const [name, content] of Object.entries(files)) {
+      const file = join(root, name);
+      mkdirSync(join(file, ".."), { recursive: true });
+      writeFileSync(file, content);
+    }
+    writeFileSync(join(root, "app.js.gz"), gzipSync("console.log('app')"));
+    symlinkSync(join(dir, "secret.txt"), join(root, "link.txt"));
+    symlinkSync(join(root, "app.js"), join(root, "app-link.js"));
+    symlinkSync(join(dir, "secret.txt"), join(root, "files/outside.txt"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    t.app.all("/**", (event) =>
+      serveStaticDir(event, {
+        root,
+        encodings: { gzip: ".gz" },
+        maxAge: 60,
+        immutablePattern: /^\/_assets\//,
+        dotfiles: event.url.searchParams.has("deny") ? "deny" : undefined,
+        directoryListing: event.url.searchParams.has("list"),
+        spaFallback: event.url.searchParams.has("spa"),
+        fallback: event.url.searchParams.has("fallback")
+          ? "/404.html"
+          : undefined,
+      }),
+    );
+  });
+
+  it("serves files with type, etag and cache-control", async () => {
+    const res = await t.fetch("/app.js", {
+      headers: { "accept-encoding": "identity" },
+    });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("console.log('app')");
+    expect(res.headers.get("content-type")).toBe(
+      "text/javascript; charset=utf-8",
+    );
+    expect(res.headers.get("content-length")).toBe("18");
+    expect(res.headers.get("etag")).toMatch(/^W\/"12-[\da-f]+"$/);
+    expect(res.headers.get("cache-control")).toBe("public, max-age=60");
+
+    const cached = await t.fetch("/app.js", {
+      headers: {
+        "accept-encoding": "identity",
+        "if-none-match": res.headers.get("etag")!,
+      },
+    });
+    expect(cached.status).toBe(304);
+  });
+
+  it("serves index files", async () => {
+    expect(await (await t.fetch("/")).text()).toBe("<h1>home</h1>");
+    const res = await t.fetch("/docs/");
+    expect(res.headers.get("content-type")).toBe("text/html; charset=utf-8");
+    expect(await res.text()).toBe("<h1>docs</h1>");
+  });
+
+  it("serves precompressed files", async () => {
+    const res = await t.fetch("/app.js", {
+      headers: { "accept-encoding": "gzip" },
+    });
+    expect(res.headers.get("content-encoding")).toBe("gzip");
+    expect(res.headers.get("content-type")).toBe(
+      "text/javascript; charset=utf-8",
+    );
+    // Node.js fetch decodes the body automatically
+    const body =
+      t.target === "node"
+        ? res.body!
+        : res.body!.pipeThrough(new DecompressionStream("gzip"));
+    expect(await new Response(body).text()).toBe("console.log('app')");
+  });
+
+  it("serves ranges of files", async () => {
+    const res = await t.fetch("/app.js", { headers: { range: "bytes=8-10" } });
+    expect(res.status).toBe(206);
+    expect(await res.text()).toBe("log");
+  });
+
+  it("sets immutable cache-control", async () => {
+    const res = await t.fetch("/_assets/chunk.js");
+    expect(res.headers.get("cache-control")).toBe(
+      "public, max-age=31536000, immutable",
+    );
+  });
+
+  it("does not serve files outside of root", async () => {
+    for (const path of [
+      "/..%2Fsecret.txt",
+      "/%2e%2e/secret.txt",
+      "/link.txt",
+    ]) {
+      const res = await t.fetch(path);
+      expect(res.status).toBe(404);
+    }
+    expect(await (await t.fetch("/app-link.js")).text()).toBe(
+      "console.log('app')",
+    );
+  });
+
+  it("handles dotfiles", async () => {
+    expect((await t.fetch("/.env")).status).toBe(404);
+    expect((await t.fetch("/.env?deny")).status).toBe(403);
+  });
+
+  it("serves fallback with 404 status", async () => {
+    const res = await t.fetch("/missing?fallback");
+    expect(res.status).toBe(404);
+    expect(res.headers.get("content-type")).toBe("text/html; charset=utf-8");
+    expect(await res.text()).toBe("<h1>not found</h1>");
+    expect((await t.fetch("/missing")).status).toBe(404);
+  });
+
+  it("lists directories", async () => {
+    const res = await t.fetch("/files?list", {
+      headers: { accept: "application/json" },
+    });
+    const { path, entries } = await res.json();
+    expect(path).toBe("/files");
+    // Hides dotfiles and symlinks pointing outside of root
+    expect(entries.map((entry: { name: string }) => entry.name)).toEqual([
+      "sub",
+      "a.txt",
+    ]);
+  });
+
+  it("serves spa fallback", async () => {
+    const res = await t.fetch("/dashboard/settings?spa");
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("<h1>home</h1>");
+    expect((await t.fetch("/missing.js?spa")).status).toBe(404);
+  });
 });
@@ -274,6 +274,37 @@ describe(`iron crypto`, () => {
   });
 
   describe("unseal()", () => {
+    // Sealed with iron-webcrypto@1.2.1 (Iron.defaults, no ttl)
+    it("unseals a ticket sealed by the reference implementation", async () => {
+      const ticket =
+        "Fe26.2**9a6d133e50afed5e62f981e4d970d8291e86f0103940647f1f8ea77c778d6523*-qUlLlELiELcBvCKa508kg*ALrpw77yiHJOBy5P3pbUCo_ofjzfoMzICALKkfNQYUo**abecaf46d71048a070f497c1c4c78a57de5e96a8c1c81a64ee70bd848912324f*Tppy1mkQNOlNWT58XYOtF9nDn8Ij6TQOy_vYkWe2bC0";
+      const unsealed = await Iron.unseal(ticket, password, Iron.defaults);
+      assert.deepEqual(unsealed, { a: 1, b: [2, "x"] });
+    });
+
+    it("unseals a ticket sealed by the reference implementation (password id)", async () => {
+      const ticket =
+        "Fe26.2*v2*3ecc6bc556748859d479012f730530862ec2391b329e0806ca606d284bad9097*rqDMX6xLvuftpz-yqgpW8w*jAia5dEk3mndjGx_J-G51Q**2ce84fb24dc01ec4eda9d00cd8d024a9d222f058620de04fe319b7e5eafe4c1a*-Ncvd0IDM9eq84AnEaeChICo-EWsf0RMWg7S70Q6cmg";
+      const unsealed = await Iron.unseal(
+        ticket,
+        { v2: password },
+        Iron.defaults,
+      );
+      assert.deepEqual(unsealed, { a: 1 });
+    });
+
+    it("seals tickets in the Iron format", async () => {
+      const sealed = await Iron.seal(
+        obj,
+        { id: "v2", secret: password },
+        Iron.defaults,
+      );
+      expect(sealed.split("*")).toHaveLength(8);
+      expect(sealed).toMatch(
+        /^Fe26\.2\*v2\*[\da-f]{64}\*[\w-]{22}\*[\w-]+\*\*[\da-f]{64}\*[\w-]{43}$/,
+      );
+    });
+
     it("unseals a ticket", async () => {
       const ticket =
         "Fe26.2**0cdd607945dd1dffb7da0b0bf5f1a7daa6218cbae14cac51dcbd91fb077aeb5b*aOZLCKLhCt0D5IU1qLTtYw*g0ilNDlQ3TsdFUqJCqAm9iL7Wa60H7eYcHL_5oP136TOJREkS3BzheDC1dlxz5oJ**05b8943049af490e913bbc3a2485bee2aaf7b823f4c41d0ff0b7c168371a3772*R8yscVdTBRMdsoVbdDiFmUL8zb-c3PQLGJn4Y8C-AqI";
@@ -14,28 +14,35 @@ describe("h3 package", () => {
         "assertMethod",
         "clearResponseHeaders",
         "clearSession",
+        "compress",
         "createApp",
+        "createClient",
         "createError",
         "createEventStream",
         "createH3",
+        "createMemorySessionStore",
         "createRouter",
         "defaultContentType",
         "defineEventHandler",
         "defineLazyEventHandler",
+        "defineMiddleware",
         "defineNodeHandler",
         "defineNodeListener",
         "defineNodeMiddleware",
+        "defineOpenAPIHandler",
         "defineRequestMiddleware",
         "defineResponseMiddleware",
         "defineWebSocket",
         "defineWebSocketHandler",
         "deleteCookie",
         "dynamicEventHandler",
+        "etag",
         "eventHandler",
         "fetchWithEvent",
         "fromNodeHandler",
         "fromNodeMiddleware",
         "fromWebHandler",
+        "generateOpenAPI",
         "getBodyStream",
         "getCookie",
         "getHeader",
@@ -71,6 +78,11 @@ describe("h3 package", () => {
         "iterable",
         "lazyEventHandler",
         "mockEvent",
+        "negotiate",
+        "negotiateCharset",
+        "negotiateEncoding",
+        "negotiateLanguage",
+        "negotiateType",
         "noContent",
         "parseCookies",
         "proxy",
@@ -78,9 +90,11 @@ describe("h3 package", () => {
         "readBody",
         "readFormData",
         "readFormDataBody",
+        "readMultipartFormData",
         "readRawBody",
         "readValidatedBody",
         "redirect",
+        "regenerateSession",
         "removeResponseHeader",
         "sanitizeStatusCode",
         "sanitizeStatusMessage",
@@ -93,6 +107,7 @@ describe("h3 package", () => {
         "sendWebResponse",
         "serve",
         "serveStatic",
+        "serveStaticDir",
         "setCookie",
         "setHeader",
         "setHeaders",
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { createH3, defineEventHandler, withBase } from "../../src";
+
+describe("routes (unit)", () => {
+  it("lists routes and middleware in registration order", () => {
+    const app = createH3()
+      .use(() => {})
+      .use("/admin/**", () => {}, { method: "POST" })
+      .get("/", () => "Hello", { name: "home" })
+      .post("/users/:id", () => "Updated", { meta: { auth: true } })
+      .all("/any", () => "Any");
+
+    expect(app.routes()).toEqual([
+      { method: "", route: "/**", middleware: true },
+      { method: "POST", route: "/admin/**", middleware: true },
+      { method: "GET", route: "/", name: "home", middleware: false },
+      {
+        method: "POST",
+        route: "/users/:id",
+        meta: { auth: true },
+        middleware: false,
+      },
+      { method: "", route: "/any", middleware: false },
+    ]);
+  });
+
+  it("includes routes of groups and mounted apps", () => {
+    const api = createH3()
+      .get("/", () => "API")
+      .get("/posts/:slug", () => "Post", { name: "post" });
+    const nested = createH3().get("/nested", () => "Nested");
+
+    const app = createH3()
+      .group("/admin", (group) => {
+        group.get("/users", () => "Users", { meta: { tags: ["admin"] } });
+      })
+      .use("/api/**", withBase("/api", api))
+      .all(
+        "/v2/**",
+        withBase("/v2", defineEventHandler({ handler: api.handler })),
+      )
+      .use(nested);
+
+    expect(app.routes()).toEqual([
+      {
+        method: "GET",
+        route: "/admin/users",
+        meta: { tags: ["admin"] },
+        middleware: false,
+      },
+      { method: "GET", route: "/api", middleware: false },
+      {
+        method: "GET",
+        route: "/api/posts/:slug",
+        name: "post",
+        middleware: false,
+      },
+      { method: "GET", route: "/v2", middleware: false },
+      {
+        method: "GET",
+        route: "/v2/posts/:slug",
+        name: "post",
+        middleware: false,
+      },
+      { method: "GET", route: "/nested", middleware: false },
+    ]);
+  });
+});
@@ -1,11 +1,14 @@
 import type { H3Event } from "../../src/types";
 import { describe, it, expectTypeOf } from "vitest";
+import { z } from "zod";
 import {
   defineEventHandler,
   getQuery,
   readBody,
   readValidatedBody,
   getValidatedQuery,
+  createH3,
+  createClient,
 } from "../../src";
 
 describe("types", () => {
@@ -76,6 +79,15 @@ describe("types", () => {
       });
     });
 
+    it("typed via standard schema", () => {
+      defineEventHandler(async (event) => {
+        const schema = z.object({ id: z.string().transform(Number) });
+        const body = await readValidatedBody(event, schema);
+        expectTypeOf(body).not.toBeAny();
+        expectTypeOf(body).toEqualTypeOf<{ id: number }>();
+      });
+    });
+
     it("typed via event handler", () => {
       defineEventHandler<{ body: { id: string } }>(async (event) => {
         const body = await readBody(event);
@@ -111,6 +123,17 @@ describe("types", () => {
       });
     });
 
+    it("typed via standard schema", () => {
+      defineEventHandler(async (event) => {
+        const query = await getValidatedQuery(
+          event,
+          z.object({ id: z.string() }),
+        );
+        expectTypeOf(query).not.toBeAny();
+        expectTypeOf(query).toEqualTypeOf<{ id: string }>();
+      });
+    });
+
     it("typed via event handler", () => {
       defineEventHandler<{ query: { id: string } }>((event) => {
         const query = getQuery(event);
@@ -119,4 +142,57 @@ describe("types", () => {
       });
     });
   });
+
+  describe("createClient", () => {
+    const app = createH3()
+      .get("/users/:id", (event) => ({ id: event.context.params!.id }))
+      .post(
+        "/users",
+        defineEventHandler<{ body: { name: string } }, { created: boolean }>(
+          () => ({ created: true }),
+        ),
+      )
+      .get("/files/**", () => new Response("file"))
+      .all("/any", () => "any");
+    const client = createClient<typeof app>(app.fetch);
+
+    it("infers route map", () => {
+      type Routes = NonNullable<(typeof app)["~routes"]>;
+      expectTypeOf<keyof Routes>().toEqualTypeOf<
+        "/users/:id" | "/users" | "/files/**" | "/any"
+      >();
+      expectTypeOf<Routes["/users/:id"]["GET"]["params"]>().toEqualTypeOf<{
+        id: string;
+      }>();
+      expectTypeOf<Routes["/files/**"]["GET"]["params"]>().toEqualTypeOf<{
+        _: string;
+      }>();
+    });
+
+    it("typed responses", async () => {
+      expectTypeOf(
+        await client.get("/users/:id", { params: { id: 1 } }),
+      ).toEqualTypeOf<{ id: string }>();
+      expectTypeOf(
+        await client.post("/users", { body: { name: "h3" } }),
+      ).toEqualTypeOf<{ created: boolean }>();
+      expectTypeOf(
+        await client.get("/files/**", { params: { _: "a" } }),
+      ).toBeUnknown();
+      expectTypeOf(await client.delete("/any")).toEqualTypeOf<string>();
+    });
+
+    it("rejects invalid requests", () => {
+      // @ts-expect-error unknown path
+      client.get("/unknown");
+      // @ts-expect-error method not registered
+      client.delete("/users/:id", { params: { id: 1 } });
+      // @ts-expect-error missing params
+      client.get("/users/:id");
+      // @ts-expect-error wrong param name
+      client.get("/users/:id", { params: { userId: 1 } });
+      // @ts-expect-error wrong body
+      client.post("/users", { body: { name: 1 } });
+    });
+  });
 });
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { createH3, withBase } from "../../src";
+
+describe("named routes (unit)", () => {
+  const api = createH3()
+    .get("/", () => "API root", { name: "api.root" })
+    .get("/posts/:slug", () => "Post", { name: "api.post" });
+
+  const nested = createH3().get("/nested/:id", () => "Nested", {
+    name: "nested.show",
+  });
+
+  const app = createH3()
+    .get("/users/:id", () => "User", { name: "user.show" })
+    .get("/files/**", () => "File", { name: "files" })
+    .get("/files-named/**:path", () => "File", { name: "files.named" })
+    .get("/static/*/*", () => "Static", { name: "static" })
+    .get("/reports/:year-:month.csv", () => "Report", { name: "report" })
+    .use("/api/**", withBase("/api", api))
+    .use(nested)
+    .group("/admin", (group) => {
+      group.get("/users/:id", () => "Admin", { name: "admin.user" });
+    });
+
+  it("fills named params", () => {
+    expect(app.url("user.show", { id: 1 })).toBe("/users/1");
+    expect(app.url("report", { year: 2024, month: "01" })).toBe(
+      "/reports/2024-01.csv",
+    );
+  });
+
+  it("encodes params", () => {
+    expect(app.url("user.show", { id: "a b/c?" })).toBe("/users/a%20b%2Fc%3F");
+  });
+
+  it("fills wildcards", () => {
+    expect(app.url("files", { _: "a/b c/d.txt" })).toBe("/files/a/b%20c/d.txt");
+    expect(app.url("files")).toBe("/files");
+    expect(app.url("files.named", { path: "x/y" })).toBe("/files-named/x/y");
+    expect(app.url("static", { _0: "a", _1: "b" })).toBe("/static/a/b");
+  });
+
+  it("appends query", () => {
+    expect(
+      app.url(
+        "user.show",
+        { id: 1 },
+        { tab: "posts", tags: ["a", "b"], skip: undefined },
+      ),
+    ).toBe("/users/1?tab=posts&tags=a&tags=b");
+  });
+
+  it("throws on missing params", () => {
+    expect(() => app.url("user.show")).toThrow(
+      'Missing param "id" for route "/users/:id"',
+    );
+    expect(() => app.url("static", { _0: "a" })).toThrow('Missing param "_1"');
+  });
+
+  it("rejects dot segments in params", () => {
+    expect(() => app.url("user.show", { id: ".." })).toThrow(
+      'Invalid param "id" for route "/users/:id"',
+    );
+    expect(() => app.url("files", { _: "a/../../etc/passwd" })).toThrow(
+      'Invalid param "_"',
+    );
+    expect(() => app.url("files.named", { path: "./x" })).toThrow(
+      'Invalid param "path"',
+    );
+    expect(() => app.url("static", { _0: "a", _1: ".." })).toThrow(
+      'Invalid param "_1"',
+    );
+    expect(app.url("files", { _: "a/..b/c." })).toBe("/files/a/..b/c.");
+  });
+
+  it("throws on unknown names", () => {
+    expect(() => app.url("unknown")).toThrow(
+      'Cannot find any route named "unknown"',
+    );
+    expect(app.resolveURL("unknown")).toBeUndefined();
+  });
+
+  it("throws on duplicate names", () => {
+    expect(() =>
+      createH3()
+        .get("/a", () => "a", { name: "dup" })
+        .get("/b", () => "b", { name: "dup" }),
+    ).toThrow('Duplicate route name "dup"');
+  });
+
+  it("resolves routes of apps mounted with withBase", () => {
+    expect(app.url("api.root")).toBe("/api");
+    expect(app.url("api.post", { slug: "hello" }, { draft: true })).toBe(
+      "/api/posts/hello?draft=true",
+    );
+  });
+
+  it("resolves routes of nested apps", () => {
+    expect(app.url("nested.show", { id: "x" })).toBe("/nested/x");
+  });
+
+  it("resolves routes of groups", () => {
+    expect(app.url("admin.user", { id: 2 })).toBe("/admin/users/2");
+  });
+});
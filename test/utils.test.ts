@@ -7,6 +7,7 @@ import {
   getRequestURL,
   getRequestIP,
   getRequestFingerprint,
+  handleCacheHeaders,
 } from "../src";
 import { describeMatrix } from "./_setup";
 
@@ -297,4 +298,107 @@ describeMatrix("utils", (t, { it, describe, expect }) => {
       expect((await t.fetch("/post", { method: "HEAD" })).status).toBe(200);
     });
   });
+
+  describe("handleCacheHeaders", () => {
+    const modifiedTime = new Date(1_700_000_000_000);
+
+    beforeEach(() => {
+      t.app.all("/cached", (event) => {
+        if (handleCacheHeaders(event, { etag: '"v2"', modifiedTime })) {
+          return null;
+        }
+        return "content";
+      });
+    });
+
+    const fetchStatus = async (headers: HeadersInit, method = "GET") =>
+      (await t.fetch("/cached", { method, headers })).status;
+
+    it("handles if-none-match", async () => {
+      expect(await fetchStatus({ "if-none-match": '"v2"' })).toBe(304);
+      expect(await fetchStatus({ "if-none-match": 'W/"v2"' })).toBe(304);
+      expect(await fetchStatus({ "if-none-match": '"v1", "v2"' })).toBe(304);
+      expect(await fetchStatus({ "if-none-match": "*" })).toBe(304);
+      expect(await fetchStatus({ "if-none-match": '"v1", "a,b"' })).toBe(200);
+      expect(await fetchStatus({ "if-none-match": '"v2"' }, "POST")).toBe(412);
+    });
+
+    it("handles if-modified-since", async () => {
+      const res = await t.fetch("/cached", {
+        headers: { "if-modified-since": modifiedTime.toUTCString() },
+      });
+      expect(res.status).toBe(304);
+      expect(res.headers.get("etag")).toBe('"v2"');
+      expect(
+        await fetchStatus({
+          "if-modified-since": new Date(1_699_999_999_000).toUTCString(),
+        }),
+      ).toBe(200);
+      expect(await fetchStatus({ "if-modified-since": "invalid" })).toBe(200);
+    });
+
+    it("prefers if-none-match over if-modified-since", async () => {
+      expect(
+        await fetchStatus({
+          "if-none-match": '"v1"',
+          "if-modified-since": modifiedTime.toUTCString(),
+        }),
+      ).toBe(200);
+    });
+
+    it("handles if-match", async () => {
+      expect(await fetchStatus({ "if-match": '"v2"' }, "PUT")).toBe(200);
+      expect(await fetchStatus({ "if-match": "*" }, "PUT")).toBe(200);
+      expect(await fetchStatus({ "if-match": '"v1"' }, "PUT")).toBe(412);
+      // If-Match uses the strong comparison
+      expect(await fetchStatus({ "if-match": 'W/"v2"' }, "PUT")).toBe(412);
+    });
+
+    it("handles if-unmodified-since", async () => {
+      expect(
+        await fetchStatus(
+          { "if-unmodified-since": modifiedTime.toUTCString() },
+          "PUT",
+        ),
+      ).toBe(200);
+      expect(
+        await fetchStatus(
+          { "if-unmodified-since": new Date(1_600_000_000_000).toUTCString() },
+          "PUT",
+        ),
+      ).toBe(412);
+      // Ignored when If-Match is present
+      expect(
+        await fetchStatus(
+          {
+            "if-match": '"v2"',
+            "if-unmodified-since": new Date(1_600_000_000_000).toUTCString(),
+          },
+          "PUT",
+        ),
+      ).toBe(200);
+    });
+
+    it("sets cache-control directives", async () => {
+      t.app.get("/directives", (event) => {
+        const type = event.url.searchParams.get("type");
+        handleCacheHeaders(
+          event,
+          type === "private"
+            ? { private: true, maxAge: 60, noCache: true }
+            : { maxAge: 60, immutable: true, staleWhileRevalidate: 30 },
+        );
+        return "ok";
+      });
+
+      const publicRes = await t.fetch("/directives");
+      expect(publicRes.headers.get("cache-control")).toBe(
+        "public, max-age=60, s-maxage=60, stale-while-revalidate=30, immutable",
+      );
+      const privateRes = await t.fetch("/directives?type=private");
+      expect(privateRes.headers.get("cache-control")).toBe(
+        "private, no-cache, max-age=60",
+      );
+    });
+  });
 });
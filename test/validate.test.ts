@@ -1,7 +1,12 @@
 import type { ValidateFunction } from "../src/types";
 import { beforeEach } from "vitest";
 import { z, ZodError } from "zod";
-import { readValidatedBody, getValidatedQuery, isError } from "../src";
+import {
+  readValidatedBody,
+  getValidatedQuery,
+  getValidatedRouterParams,
+  isError,
+} from "../src";
 import { describeMatrix } from "./_setup";
 
 describeMatrix("validate", (t, { it, describe, expect }) => {
@@ -25,8 +30,20 @@ describeMatrix("validate", (t, { it, describe, expect }) => {
     invalid: z.never().optional() /* WTF! */,
   }).parse;
 
+  // Standard Schema (passed directly)
+  const zodSchema = z.object({
+    default: z.string().default("default"),
+    field: z.string().optional(),
+    invalid: z.never().optional(),
+  });
+
   describe("readValidatedBody", () => {
     beforeEach(() => {
+      t.app.post("/standard", async (event) => {
+        const data = await readValidatedBody(event, zodSchema);
+        return data;
+      });
+
       t.app.post("/custom", async (event) => {
         const data = await readValidatedBody(event, customValidate);
         return data;
@@ -105,9 +122,11 @@ describeMatrix("validate", (t, { it, describe, expect }) => {
           body: JSON.stringify({ invalid: true }),
         });
         expect(res.status).toEqual(400);
-        expect((await res.json()).data?.issues?.[0]?.code).toEqual(
-          "invalid_type",
-        );
+        expect((await res.json()).data).toEqual({
+          issues: [
+            { path: ["invalid"], message: "Expected never, received boolean" },
+          ],
+        });
       });
 
       it("Caught", async () => {
@@ -118,6 +137,112 @@ describeMatrix("validate", (t, { it, describe, expect }) => {
         expect(await res.json()).toEqual(true);
       });
     });
+
+    describe("standard schema", () => {
+      it("Valid", async () => {
+        const res = await t.fetch("/standard", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ field: "value" }),
+        });
+        expect(await res.json()).toEqual({
+          field: "value",
+          default: "default",
+        });
+        expect(res.status).toEqual(200);
+      });
+
+      it("Invalid", async () => {
+        const res = await t.fetch("/standard", {
+          method: "POST",
+          body: JSON.stringify({ invalid: true, field: 1 }),
+        });
+        expect(res.status).toEqual(400);
+        expect(await res.json()).toMatchObject({
+          statusMessage: "Validation Error",
+          data: {
+            issues: [
+              { path: ["field"], message: "Expected string, received number" },
+              {
+                path: ["invalid"],
+                message: "Expected never, received boolean",
+              },
+            ],
+          },
+        });
+      });
+
+      it("Custom schema with object path segments", async () => {
+        t.app.post("/custom-schema", (event) =>
+          readValidatedBody(event, {
+            "~standard": {
+              version: 1,
+              vendor: "custom",
+              validate: async () => ({
+                issues: [{ message: "Bad item", path: ["items", { key: 0 }] }],
+              }),
+            },
+          }),
+        );
+        const res = await t.fetch("/custom-schema", {
+          method: "POST",
+          body: "{}",
+        });
+        expect(res.status).toEqual(400);
+        expect((await res.json()).data).toEqual({
+          issues: [{ path: ["items", 0], message: "Bad item" }],
+        });
+      });
+    });
+
+    describe("throwing Standard Schema", () => {
+      for (const [name, validate] of [
+        [
+          "sync",
+          () => {
+            throw new Error("Schema failed");
+          },
+        ],
+        ["async", () => Promise.reject(new Error("Schema failed"))],
+      ] as const) {
+        it(`Responds 400 when validate throws (${name})`, async () => {
+          t.app.post("/throwing-schema", (event) =>
+            readValidatedBody(event, {
+              "~standard": { version: 1, vendor: "custom", validate },
+            }),
+          );
+          const res = await t.fetch("/throwing-schema", {
+            method: "POST",
+            body: "{}",
+          });
+          expect(res.status).toEqual(400);
+          expect(await res.json()).toMatchObject({
+            statusMessage: "Validation Error",
+            data: { issues: [{ path: [], message: "Schema failed" }] },
+          });
+        });
+      }
+    });
+
+    describe("custom validator errors", () => {
+      it("Normalized issues", async () => {
+        const res = await t.fetch("/custom", {
+          method: "POST",
+          body: JSON.stringify({ invalid: true }),
+        });
+        expect((await res.json()).data).toEqual({
+          issues: [{ path: [], message: "Invalid key" }],
+        });
+      });
+
+      it("Caught (unchanged cause)", async () => {
+        const res = await t.fetch("/zod-caught", {
+          method: "POST",
+          body: JSON.stringify({ invalid: true }),
+        });
+        expect(await res.json()).toEqual(true);
+      });
+    });
   });
 
   describe("getQuery", () => {
@@ -165,5 +290,40 @@ describeMatrix("validate", (t, { it, describe, expect }) => {
         expect(res.status).toEqual(400);
       });
     });
+
+    describe("standard schema", () => {
+      it("Valid", async () => {
+        t.app.get("/standard", (event) => getValidatedQuery(event, zodSchema));
+        const res = await t.fetch("/standard?field=value");
+        expect(await res.json()).toEqual({
+          field: "value",
+          default: "default",
+        });
+      });
+    });
+  });
+
+  describe("getValidatedRouterParams", () => {
+    beforeEach(() => {
+      t.app.get("/users/:id", (event) =>
+        getValidatedRouterParams(
+          event,
+          z.object({ id: z.string().regex(/^\d+$/).transform(Number) }),
+        ),
+      );
+    });
+
+    it("Valid", async () => {
+      const res = await t.fetch("/users/123");
+      expect(await res.json()).toEqual({ id: 123 });
+    });
+
+    it("Invalid", async () => {
+      const res = await t.fetch("/users/abc");
+      expect(res.status).toEqual(400);
+      expect((await res.json()).data).toEqual({
+        issues: [{ path: ["id"], message: "Invalid" }],
+      });
+    });
   });
 });